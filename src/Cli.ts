@@ -1,7 +1,15 @@
 //!/usr/bin/env bun
 // src/cli.ts
 import { createInterface } from "bun:readline";
-import { Runtime } from "./runtime.js";
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import { FakeLlmPort } from "./drivers/fake-llm-port.js";
+import { Runtime, RuntimeOptions } from "./runtime.js";
+import type { SessionSummary } from "./runtime/session-store.js";
+import { readJournal } from "./runtime/journal.js";
+import type { MailboxSnapshot } from "./mailbox.js";
+import type { SchedulerSnapshot } from "./scheduler.js";
+import { PriceTable, type UsageTotals } from "./usage.js";
 import { assertNever, type AgentUiEvent } from "./ui-messages.js";
 
 /* -------------------------------------------------------------------------- */
@@ -70,6 +78,8 @@ let spinnerIdx = 0;
 let spinnerActive = false;
 let awaitingUserInput = true; // show prompt initially
 let planningActive = false; // true while agent doing internal LLM loops
+let mainAgent = "agent#1"; // the agent `say` talks to; others get a tag
+let previewing = false; // the stream line previews a planner turn
 
 function startSpinner() {
   if (spinnerActive) return;
@@ -127,7 +137,9 @@ function renderAgentUiEvent(evt: AgentUiEvent): string[] {
     case "session-start":
       return [
         sectionHeader(
-          `session ${evt.sessionId} ready (agent ${evt.agentId})`
+          `session ${evt.sessionId} ${
+            evt.resumed ? "resumed" : "ready"
+          } (agent ${evt.agentId})`
         ),
       ];
     case "user-turn":
@@ -142,9 +154,12 @@ function renderAgentUiEvent(evt: AgentUiEvent): string[] {
           ? "errored"
           : evt.reason === "interrupted"
           ? "interrupted"
+          : evt.reason === "budget"
+          ? "over budget"
           : "max steps";
       const detail = evt.detail ? ` – ${evt.detail}` : "";
-      return [`[planning ${reason}]${detail}`.trim()];
+      const usage = evt.usage ? ` (${renderUsage(evt.usage)})` : "";
+      return [`[planning ${reason}]${detail}${usage}`.trim()];
     }
     case "step":
       return [`Step ${evt.step}: ${evt.say ?? evt.goal}`];
@@ -210,6 +225,8 @@ function renderAgentUiEvent(evt: AgentUiEvent): string[] {
           ? "[interrupted]"
           : evt.status === "max-steps"
           ? "[max steps reached]"
+          : evt.status === "budget"
+          ? "[spending cap reached]"
           : `[status: ${evt.status}]`,
       ];
 
@@ -219,12 +236,25 @@ function renderAgentUiEvent(evt: AgentUiEvent): string[] {
     case "stream-token":
       return [evt.token];
 
+    case "planner-delta":
+      return [evt.text];
+
     case "stream-done":
       return [];
 
     case "llm-start":
     case "llm-end":
       return [];
+
+    case "metrics":
+      return [];
+
+    case "retry":
+      return [
+        `retrying ${evt.source} (${evt.attempt}/${evt.maxAttempts}) in ${
+          evt.delayMs
+        }ms – ${evt.error}`,
+      ];
   }
 
   return [];
@@ -244,10 +274,11 @@ function makeUI(prompt = "> ") {
       }
       process.stdout.write(CLEAR + CR + styles.cyan + text + styles.reset);
     },
-    streamDone() {
+    // `erase` drops the line, e.g. a preview the next event repeats
+    streamDone(erase = false) {
       if (streaming) {
         streaming = false;
-        process.stdout.write("\n");
+        process.stdout.write(erase ? CLEAR + CR : "\n");
       }
     },
     log(line: string) {
@@ -263,19 +294,111 @@ function makeUI(prompt = "> ") {
 
 const ui = makeUI("> ");
 
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+function usageError(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+async function readPrices(file: string): Promise<PriceTable> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await readFile(file, "utf8"));
+  } catch (err: any) {
+    usageError(`--prices: cannot read ${file}: ${err?.message ?? err}`);
+  }
+  const prices = PriceTable.safeParse(json);
+  if (!prices.success) {
+    usageError(
+      `--prices: ${file} is not a price table\n` +
+        z.prettifyError(prices.error)
+    );
+  }
+  return prices.data;
+}
+
+function readMaxCost(value: string): number {
+  const usd = value.trim() ? Number(value) : NaN;
+  if (!Number.isFinite(usd) || usd < 0) {
+    usageError(`--max-cost: expected an amount in USD, got "${value}"`);
+  }
+  return usd;
+}
+
+function renderUsage(u: UsageTotals & { maxCostUsd?: number }): string {
+  const cap = u.maxCostUsd !== undefined ? ` of $${u.maxCostUsd}` : "";
+  return (
+    `${u.inputTokens} in (${u.cachedTokens} cached) / ${u.outputTokens} out` +
+    ` · $${u.costUsd.toFixed(4)}${cap}`
+  );
+}
+
+function renderSessions(sessions: SessionSummary[]): string[] {
+  if (!sessions.length) return ["no saved sessions"];
+  return sessions.map(
+    (s) =>
+      `${s.sessionId}  ${new Date(s.updatedAt).toLocaleString()}` +
+      (s.title ? `  ${s.title.slice(0, 60)}` : "")
+  );
+}
+
+// `thom --sessions` lists saved sessions, `thom --resume <id>` continues one
+if (process.argv.includes("--sessions")) {
+  for (const line of renderSessions(await Runtime.listSessions())) {
+    console.log(line);
+  }
+  process.exit(0);
+}
+
+// `thom --replay logs/journal/<session>.jsonl` plays a recorded session back
+const replayFile = argValue("--replay");
+const resumeId = argValue("--resume");
+// `thom --fixture <file>` answers from scripted replies instead of a model
+const fixtureFile = argValue("--fixture");
+// `--prices <file>` adds model prices, `--max-cost <usd>` caps spending
+const pricesFile = argValue("--prices");
+const maxCost = argValue("--max-cost");
+const options: RuntimeOptions = replayFile
+  ? { replay: await readJournal(replayFile) }
+  : resumeId
+  ? { resume: resumeId }
+  : {};
+if (fixtureFile) options.llm = await FakeLlmPort.load(fixtureFile);
+if (pricesFile) options.prices = await readPrices(pricesFile);
+if (maxCost !== undefined) options.maxCostUsd = readMaxCost(maxCost);
+// `--cache` answers repeated model requests from logs/llm-cache
+if (process.argv.includes("--cache")) options.llmCache = {};
+
 const rt = await Runtime.init((evt: AgentUiEvent) => {
 
   const lines = renderAgentUiEvent(evt);
-
-  if (evt.kind === "stream-token") {
+  if (evt.kind === "session-start") mainAgent = evt.agentId;
+  const tag =
+    evt.actorId && evt.actorId !== mainAgent
+      ? `${styles.magenta}[${evt.actorId}]${styles.reset} `
+      : "";
+
+  if (evt.kind === "stream-token" || evt.kind === "planner-delta") {
+    previewing = evt.kind === "planner-delta";
     ui.streamUpdate(lines.join(""));
     return;
   }
   if (evt.kind === "stream-done") {
     stopSpinner();
-    ui.streamDone();
+    ui.streamDone(previewing);
+    previewing = false;
     return;
   }
+  if (evt.kind === "planning-stop") {
+    // planner is idle again (final, error or interrupt); hand control back
+    stopSpinner();
+    planningActive = false;
+    awaitingUserInput = true;
+  }
 
   // Ensure we are not mid-stream
   ui.streamDone();
@@ -311,15 +434,18 @@ const rt = await Runtime.init((evt: AgentUiEvent) => {
       case "planning-stop":
         out = `${styles.cyan}${out}${styles.reset}`;
         break;
+      case "retry":
+        out = `${styles.dim}${out}${styles.reset}`;
+        break;
     }
 
-    ui.log(out);
+    ui.log(tag + out);
   }
 
   if (awaitingUserInput && !planningActive && !spinnerActive) {
     showPrompt();
   }
-});
+}, options);
 
 // auto-start runtime
 rt.start();
@@ -330,9 +456,49 @@ const rl = createInterface({
   prompt: "> ",
 });
 
-console.log(sectionHeader("commands: say <text> | stop | quit"));
+console.log(
+  sectionHeader(
+    "commands: say <text> | interrupt | sessions | usage | stats | pause | resume | drain | stop | start | restart | quit"
+  )
+);
+if (replayFile) runtimeNote(`replaying ${replayFile}`);
 showPrompt();
 
+function runtimeNote(text: string) {
+  ui.log(`${styles.gray}[${text}]${styles.reset}`);
+}
+
+function renderStats(
+  s: SchedulerSnapshot,
+  mailboxes: Record<string, MailboxSnapshot>
+): string[] {
+  const depth = (lane: "domain" | "ui") => {
+    const q = s.queued[lane];
+    return `${lane} ${q.high}/${q.medium}/${q.low}`;
+  };
+  const status = `${s.status}${s.paused ? " (paused)" : ""}`;
+  const lines = [
+    `${status} · queued h/m/l ${depth("domain")} · ${depth("ui")}` +
+      ` · scheduled ${s.scheduled}`,
+  ];
+  for (const t of s.inFlight) {
+    lines.push(`  running ${t.id} (${t.lane}/${t.priority}) ${t.ageMs}ms`);
+  }
+  for (const [prefix, h] of Object.entries(s.durations)) {
+    const avg = h.count ? Math.round(h.sumMs / h.count) : 0;
+    lines.push(
+      `  ${prefix.padEnd(12)} n=${h.count} avg=${avg}ms max=${h.maxMs}ms`
+    );
+  }
+  for (const [id, m] of Object.entries(mailboxes)) {
+    lines.push(
+      `  mailbox ${id.padEnd(10)} depth=${m.depth} max=${m.maxDepth}` +
+        ` handled=${m.processed} overflowed=${m.overflowed}`
+    );
+  }
+  return lines;
+}
+
 rl.on("line", (line: string) => {
   const [cmd, ...rest] = line.trim().split(" ");
   if (cmd === "say") {
@@ -344,19 +510,56 @@ rl.on("line", (line: string) => {
     rt.dispatch({
       type: "UserInput",
       text,
-      target: "agent#1",
+      target: mainAgent,
       reqId: `user-${Date.now()}`,
     });
   } else if (cmd === "interrupt") {
-    rt.interrupt("agent#1");
+    rt.interrupt(mainAgent);
+  } else if (cmd === "sessions") {
+    void Runtime.listSessions().then((sessions) => {
+      for (const line of renderSessions(sessions)) runtimeNote(line);
+      showPrompt();
+    });
+  } else if (cmd === "usage") {
+    const u = rt.usage();
+    runtimeNote(`${u.requests} model requests · ${renderUsage(u)}`);
+  } else if (cmd === "stats") {
+    for (const line of renderStats(rt.stats(), rt.mailboxes())) {
+      ui.log(`${styles.gray}${line}${styles.reset}`);
+    }
+  } else if (cmd === "pause") {
+    rt.pause();
+    runtimeNote(rt.getStatus());
+  } else if (cmd === "resume") {
+    rt.resume();
+    runtimeNote(rt.getStatus());
+  } else if (cmd === "drain") {
+    runtimeNote("draining…");
+    void rt.drain().then(() => {
+      runtimeNote("drained");
+      showPrompt();
+    });
   } else if (cmd === "stop") {
     rt.stop();
+    runtimeNote("stopped – queued work is kept");
+  } else if (cmd === "start") {
+    rt.start();
+    runtimeNote(rt.getStatus());
+  } else if (cmd === "restart") {
+    void rt.restart().then(() => {
+      runtimeNote("restarted");
+      showPrompt();
+    });
   } else if (cmd === "quit" || cmd === "exit") {
     rt.stop();
     rl.close();
     return;
   } else {
-    console.log(errLine("unknown. use: say | interrupt | stop | quit"));
+    console.log(
+      errLine(
+        "unknown. use: say | interrupt | sessions | usage | stats | pause | resume | drain | stop | start | restart | quit"
+      )
+    );
   }
   // Do not prompt immediately; wait for planner to finish (final/status/error)
 }).on("close", () => {
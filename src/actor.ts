@@ -1 +1,97 @@
+import type { Effect } from "./effect.js";
+import type { Event } from "./events.js";
+import type { MailboxOptions } from "./mailbox.js";
+import type { AgentUiEvent } from "./ui-messages.js";
+
 export type ActorId = string;
+
+export interface Actor {
+  id: ActorId;
+  /**
+   * Handles one event. Throwing, or returning a promise that rejects, is a
+   * crash: the actor's supervisor decides whether it is restarted.
+   */
+  on(event: Event): { effects?: any[] } | Promise<void> | void;
+  /** Called once the actor has been stopped and removed from the router. */
+  stopped?(): void;
+  /** JSON-serializable state to persist with the session. */
+  snapshot?(): unknown;
+  /** Takes back state from `snapshot()` when a session is resumed. */
+  restore?(state: unknown): void;
+}
+
+/*
+  How a supervisor reacts when one of its children crashes: restart just
+  that child, or all of its children. A child that crashes more than
+  `maxRestarts` times within `withinMs` is given up on, and the failure
+  escalates to the supervisor itself.
+*/
+export type SupervisionPolicy = {
+  strategy: "one-for-one" | "one-for-all";
+  maxRestarts: number;
+  withinMs: number;
+};
+
+export type SpawnOptions = {
+  /** How this actor supervises the children it spawns. */
+  supervision?: SupervisionPolicy;
+  /** Bound and overflow policy of the actor's mailbox. */
+  mailbox?: MailboxOptions;
+};
+
+/** A `Message` event whose body has a known shape. */
+export type Message<T = unknown> = Omit<
+  Extract<Event, { type: "Message" }>,
+  "body"
+> & { body: T };
+
+/*
+  What the runtime hands an actor when it is spawned: its place in the actor
+  tree, messaging, and the ways it may touch the outside world.
+*/
+export interface ActorContext {
+  readonly self: ActorId;
+  /** Actor that spawned this one; undefined for top-level actors. */
+  readonly parent: ActorId | undefined;
+  /**
+   * Starts a child actor named `<name>#<n>` and returns its id. `create` is
+   * called again, with a fresh context, whenever the child is restarted.
+   */
+  spawn(
+    name: string,
+    create: (ctx: ActorContext) => Actor,
+    opts?: SpawnOptions
+  ): ActorId;
+  /** Stops an actor and its descendants, canceling their in-flight work. */
+  stop(id: ActorId): void;
+  send<T>(to: ActorId, body: T): void;
+  /** Sends a message and resolves with the body of the first reply to it. */
+  ask<Res, Req = unknown>(
+    to: ActorId,
+    body: Req,
+    opts?: { timeoutMs?: number }
+  ): Promise<Res>;
+  reply<T>(msg: Message, body: T): void;
+  /** Fire-and-forget: the effect's events are dispatched to this actor. */
+  submit(effect: Effect): void;
+  /**
+   * Runs an effect and resolves with the events it returned. Events it emits
+   * while running, e.g. streamed tokens, go to `onEvent` when given instead
+   * of being dispatched, so they arrive while this actor is still busy.
+   */
+  perform(
+    effect: Effect,
+    opts?: { onEvent?: (evt: Event) => void }
+  ): Promise<Event[]>;
+  /** Publishes a UI event tagged with this actor's id. */
+  emit(evt: AgentUiEvent): void;
+  /**
+   * Receives events of a topic (an event type or a published topic) in
+   * addition to those sent to this actor. Returns a function to unsubscribe.
+   */
+  subscribe(topic: string): () => void;
+  /** Sends a `Published` event to every subscriber of `topic`. */
+  publish<T>(topic: string, body: T): void;
+  /** Persists the session, including every actor's snapshot, e.g. per turn. */
+  checkpoint(): void;
+}
@@ -0,0 +1,236 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { FakeLlmPort, readLlmFixture } from "../drivers/fake-llm-port.js";
+import type {
+  GenerateOptions,
+  LlmMessage,
+  LlmPort,
+} from "../drivers/llm-port.js";
+import { RoutingLlmPort } from "../drivers/routing-port.js";
+import type { ToolPort } from "../drivers/tools-port.js";
+import { RuntimeHarness } from "../testing/runtime-harness.js";
+
+const fixture = (name: string) =>
+  join(import.meta.dir, "../testing/fixtures", `${name}.json`);
+
+describe("BuilderAgent against a scripted model", () => {
+  test("plans, calls a tool and finishes on its result", async () => {
+    const script = await readLlmFixture(fixture("planner-loop"));
+    let llm!: FakeLlmPort;
+    const calls: unknown[] = [];
+    const fs: ToolPort = {
+      name: "fs",
+      run: async (args) => {
+        calls.push(args);
+        return { ok: true, data: "hello from notes" };
+      },
+    };
+    const h = await RuntimeHarness.create({
+      llm: (clock) => (llm = new FakeLlmPort(script, clock)),
+      tools: [fs],
+    });
+
+    h.say("what do my notes say?");
+    await h.driver.runUntilIdle();
+
+    expect(calls).toEqual([{ op: "read", path: "notes.txt" }]);
+    expect(llm.remaining).toBe(0);
+    expect(
+      h.kinds().filter((k) => /^(step|action|observation|final)$/.test(k))
+    ).toEqual(["step", "action", "observation", "final"]);
+    expect(h.ofKind("final")[0]!.summary).toBe("notes.txt says hello");
+    expect(h.ofKind("planning-stop").map((e) => e.reason)).toEqual(["final"]);
+    // three requests of 50ms latency per chunk, all on the virtual clock
+    expect(h.clock.now()).toBeGreaterThanOrEqual(150);
+  });
+
+  test("sends role-structured messages and the planner schema", async () => {
+    const seen: Array<{ messages: LlmMessage[]; opts?: GenerateOptions }> =
+      [];
+    const llm: LlmPort = {
+      async *generate(messages, opts) {
+        seen.push({ messages, ...(opts && { opts }) });
+        yield JSON.stringify({
+          schema_version: 1,
+          message: { type: "final", step: 1, summary: "done" },
+        });
+      },
+    };
+    const h = await RuntimeHarness.create({ llm });
+
+    h.say("hello");
+    await h.driver.runUntilIdle();
+
+    const { messages, opts } = seen[0]!;
+    expect(messages.map((m) => m.role)).toEqual(["system", "user"]);
+    expect(messages[1]).toEqual({ role: "user", content: "hello" });
+    expect(opts?.schema?.name).toBe("planner_turn");
+    expect(opts?.schema?.schema).toMatchObject({
+      type: "object",
+      required: ["schema_version", "message"],
+    });
+    expect(h.ofKind("final")[0]!.summary).toBe("done");
+  });
+
+  test("streams say and goal to the UI before the step lands", async () => {
+    const llm = new FakeLlmPort({
+      chunkSize: 8,
+      replies: [
+        {
+          reply: {
+            schema_version: 1,
+            message: { type: "step", step: 1, goal: "look", say: "Looking" },
+          },
+        },
+        {
+          reply: {
+            schema_version: 1,
+            message: { type: "final", step: 2, summary: "done" },
+          },
+        },
+      ],
+    });
+    const h = await RuntimeHarness.create({ llm });
+
+    h.say("go");
+    await h.driver.runUntilIdle();
+
+    const deltas = h.ofKind("planner-delta");
+    expect(deltas.map((d) => [d.field, d.delta])).toEqual([
+      ["goal", "lo"],
+      ["goal", "ok"],
+      ["say", "Looki"],
+      ["say", "ng"],
+    ]);
+    expect(deltas.at(-1)!.text).toBe("Looking");
+    const kinds = h.kinds();
+    expect(kinds.lastIndexOf("planner-delta")).toBeLessThan(
+      kinds.indexOf("step")
+    );
+    // the raw JSON is not shown as it streams
+    expect(kinds).not.toContain("stream-token");
+    expect(h.ofKind("final")[0]!.summary).toBe("done");
+  });
+
+  test("repairs an invalid reply by asking again", async () => {
+    const llm = await FakeLlmPort.load(fixture("planner-repair"));
+    const h = await RuntimeHarness.create({ llm });
+
+    h.say("do it");
+    await h.driver.runUntilIdle();
+
+    expect(llm.prompts).toHaveLength(2);
+    expect(llm.prompts[1]).toContain("Validation error(s):");
+    expect(h.ofKind("final")[0]!.summary).toBe("fixed");
+    expect(llm.remaining).toBe(0);
+  });
+
+  test("gives up when repairs keep failing", async () => {
+    const llm = new FakeLlmPort({
+      replies: [{ reply: "not json", repeat: true }],
+    });
+    const h = await RuntimeHarness.create({ llm });
+
+    h.say("do it");
+    await h.driver.runUntilIdle();
+
+    // the first reply plus two repairs
+    expect(llm.prompts).toHaveLength(3);
+    const [stop] = h.ofKind("planning-stop");
+    expect(stop!.reason).toBe("error");
+    expect(stop!.detail).toMatch(/^planner output invalid/);
+  });
+
+  test("stops after the maximum number of planner steps", async () => {
+    const llm = await FakeLlmPort.load(fixture("planner-max-steps"));
+    const h = await RuntimeHarness.create({ llm });
+
+    h.say("never finish");
+    await h.driver.runUntilIdle();
+
+    expect(llm.prompts).toHaveLength(12);
+    expect(h.ofKind("step")).toHaveLength(12);
+    expect(h.ofKind("planning-stop").map((e) => e.reason)).toEqual([
+      "max-steps",
+    ]);
+  });
+
+  test("repairs on the repair route and reports who served", async () => {
+    const main = new FakeLlmPort({
+      model: "big",
+      replies: [{ reply: "not json" }],
+    });
+    const cheap = new FakeLlmPort({
+      model: "small",
+      replies: [
+        {
+          reply: {
+            schema_version: 1,
+            message: { type: "final", step: 1, summary: "fixed" },
+          },
+        },
+      ],
+    });
+    const h = await RuntimeHarness.create({
+      llm: new RoutingLlmPort([
+        { purpose: "repair", chain: [cheap] },
+        { chain: [main] },
+      ]),
+    });
+
+    h.say("do it");
+    await h.driver.runUntilIdle();
+
+    expect(h.ofKind("llm-start").map((e) => e.model)).toEqual([
+      "big",
+      "small",
+    ]);
+    expect(h.ofKind("llm-end").map((e) => e.model)).toEqual(["big", "small"]);
+    expect(cheap.prompts[0]).toContain("Validation error(s):");
+    expect(h.ofKind("final")[0]!.summary).toBe("fixed");
+  });
+
+  test("totals usage per turn and stops at the spending cap", async () => {
+    const llm = new FakeLlmPort({
+      model: "m",
+      replies: [
+        {
+          repeat: true,
+          reply: {
+            schema_version: 1,
+            message: { type: "final", step: 1, summary: "done" },
+          },
+          usage: { inputTokens: 600_000, outputTokens: 100_000 },
+        },
+      ],
+    });
+    const h = await RuntimeHarness.create({
+      llm,
+      prices: { m: { input: 1, output: 4 } },
+      maxCostUsd: 1,
+    });
+
+    h.say("one");
+    await h.driver.runUntilIdle();
+    expect(h.ofKind("llm-end")[0]).toMatchObject({
+      tokens: 100_000,
+      costUsd: 1,
+    });
+    expect(h.ofKind("planning-stop")[0]!.usage).toEqual({
+      requests: 1,
+      inputTokens: 600_000,
+      outputTokens: 100_000,
+      cachedTokens: 0,
+      costUsd: 1,
+    });
+
+    h.say("two");
+    await h.driver.runUntilIdle();
+    expect(llm.prompts).toHaveLength(1);
+    expect(h.ofKind("status").map((e) => e.status)).toEqual(["budget"]);
+    const stop = h.ofKind("planning-stop")[1]!;
+    expect(stop.reason).toBe("budget");
+    expect(stop.usage).toBeUndefined();
+    expect(h.runtime.usage()).toMatchObject({ costUsd: 1, maxCostUsd: 1 });
+  });
+});
@@ -1,15 +1,23 @@
 // actors/builder-agent.ts
-import type { Effect } from "../effect.js";
+import type { Actor, ActorContext } from "../actor.js";
+import type { LlmMessage, LlmOutputSchema } from "../drivers/llm-port.js";
 import type { Event } from "../events.js";
 import { z } from "zod";
+import { PartialJsonParser, StringDelta } from "../partial-json.js";
 import type { AgentUiEvent } from "../ui-messages.js";
+import {
+  addUsage,
+  BudgetExceededError,
+  emptyUsage,
+  UsageTotals,
+} from "../usage.js";
 
 /* ----------------------------- SYSTEM PROMPT ----------------------------- */
 
 const SYSTEM = `
 You are a self-building agent.
 
-You MUST reply with EXACTLY ONE JSON object that validates this schema:
+Every reply is ONE planner turn:
 
 {
   "schema_version": 1,
@@ -62,12 +70,10 @@ You MUST reply with EXACTLY ONE JSON object that validates this schema:
 
 ### RULES:
 
-- Always emit one JSON object per turn, no arrays, no extra text.
 - Small steps: plan with "step", then if you need work done emit "action".
 - Use unique toolcall_id for each "action".
 - After ToolResult, react with the next "step", "action", or "final".
 - Conclude with "final" when the goal is satisfied.
-- Return ONLY JSON. No markdown, no code fences, no trailing commas.
 - You have at most 12 steps this turn.
 `.trim();
 
@@ -136,9 +142,39 @@ const PlannerTurn = z.object({
 type PlannerTurn = z.infer<typeof PlannerTurn>;
 type PlannerMsg = z.infer<typeof PlannerMsg>;
 
+// the same contract as a JSON Schema, enforced by the provider where it can
+const { $schema: _, ...turnSchema } = z.toJSONSchema(PlannerTurn, {
+  io: "input",
+});
+const PLANNER_SCHEMA: LlmOutputSchema = {
+  name: "planner_turn",
+  description: "The planner's next turn",
+  schema: turnSchema,
+};
+
+// persisted conversation; the system prompt is not saved so updates apply
+const Snapshot = z.object({
+  convo: z.array(
+    z.union([
+      z.object({
+        role: z.enum(["user", "assistant"]),
+        content: z.string(),
+      }),
+      z.object({
+        role: z.literal("tool"),
+        tool: z.string(),
+        ok: z.boolean(),
+        content: z.string(),
+      }),
+    ])
+  ),
+  steps: z.number().int().min(0),
+});
+type Snapshot = z.infer<typeof Snapshot>;
+
 /* ------------------------------ AGENT CLASS ----------------------------- */
 
-export class BuilderAgent {
+export class BuilderAgent implements Actor {
   private readonly MAX_STEPS = 12;
   private readonly MAX_REPAIRS = 2;
 
@@ -146,9 +182,11 @@ export class BuilderAgent {
   private steps = 0;
 
   private currentReqId: string | null = null;
+  // model usage of the current turn, once a request has reported some
+  private turnUsage: UsageTotals | null = null;
 
   private emitPlanningStop(
-    reason: "final" | "error" | "interrupted" | "max-steps",
+    reason: "final" | "error" | "interrupted" | "max-steps" | "budget",
     detail?: string
   ) {
     if (!this.currentReqId) return;
@@ -158,31 +196,114 @@ export class BuilderAgent {
       requestId: this.currentReqId,
       reason,
       ...(detail ? { detail } : {}),
+      ...(this.turnUsage ? { usage: this.turnUsage } : {}),
     });
     this.currentReqId = null;
+    // the turn is over: persist the conversation so far
+    this.ctx.checkpoint();
+  }
+
+  // rolling conversation sent to the model on every planner step
+  private convo: LlmMessage[] = [{ role: "system", content: SYSTEM }];
+
+  public readonly id: string;
+
+  constructor(private ctx: ActorContext) {
+    this.id = ctx.self;
+  }
+
+  snapshot(): Snapshot {
+    return {
+      convo: this.convo.filter(
+        (m): m is Snapshot["convo"][number] => m.role !== "system"
+      ),
+      steps: this.steps,
+    };
   }
 
-  // rolling transcript; simple role/content pairs for the planner context
-  private convo: { role: "system" | "user" | "assistant"; content: string }[] =
-    [{ role: "system", content: SYSTEM }];
+  restore(state: unknown) {
+    const { convo, steps } = Snapshot.parse(state);
+    this.convo = [this.convo[0]!, ...convo];
+    this.steps = steps;
+  }
 
-  constructor(
-    public id: string,
-    private submitEffect: (e: Effect) => void,
-    private llmOnce: (prompt: string, target: string) => Promise<string>,
-    private onUpdate: (evt: AgentUiEvent) => void
-  ) {}
+  private onUpdate(evt: AgentUiEvent) {
+    this.ctx.emit(evt);
+  }
 
+  /*
+    Streamed planner call. The reply's `say` and `goal` reach the UI while
+    the rest of the turn is still arriving; the whole reply is returned for
+    validation once the model is done.
+  */
+  private async llmTurn(purpose: "plan" | "repair"): Promise<string> {
+    const parser = new PartialJsonParser();
+    let raw = "";
+    const events = await this.ctx.perform(
+      {
+        kind: "LlmGenerate",
+        messages: [...this.convo],
+        target: this.id,
+        schema: PLANNER_SCHEMA,
+        purpose,
+      },
+      {
+        onEvent: (e) => {
+          if (e.type !== "TokenChunk") return;
+          raw += e.text;
+          for (const d of parser.push(e.text)) this.preview(d);
+        },
+      }
+    );
+    for (const e of events) {
+      if (e.type === "LlmError") throw new Error(e.error);
+      if (e.type === "LlmCanceled") throw new Error("planner call canceled");
+      if (e.type === "LlmComplete" && e.usage) {
+        this.turnUsage = addUsage(
+          this.turnUsage ?? emptyUsage(),
+          e.usage,
+          e.costUsd
+        );
+      }
+    }
+    return raw;
+  }
+
+  private preview({ path, delta, text }: StringDelta) {
+    const [top, field] = path;
+    if (path.length !== 2 || top !== "message" || !delta) return;
+    if (field !== "say" && field !== "goal") return;
+    if (!this.currentReqId || this.interrupted) return;
+    this.onUpdate({
+      kind: "planner-delta",
+      agentId: this.id,
+      requestId: this.currentReqId,
+      field,
+      delta,
+      text,
+    });
+  }
+
+  /*
+    Called by the runtime after it has canceled this actor's in-flight LLM
+    and tool tasks. We report the interruption right away instead of waiting
+    for the next loop() so the UI returns to idle immediately.
+  */
   interrupt() {
     this.interrupted = true;
+    if (!this.currentReqId) return;
+    this.onUpdate({ kind: "status", status: "interrupted" });
+    this.emitPlanningStop("interrupted");
   }
 
-  on(event: Event) {
+  // returns the planner loop it starts, so a crash in it reaches the supervisor
+  on(event: Event): Promise<void> | void {
     if (event.type === "UserInput" && event.target === this.id) {
       this.currentReqId = event.reqId ?? `turn-${Date.now()}`;
       const requestId = this.currentReqId;
       this.convo.push({ role: "user", content: event.text });
       this.steps = 0;
+      this.turnUsage = null;
       this.interrupted = false;
       this.onUpdate({
         kind: "user-turn",
@@ -195,18 +316,19 @@ export class BuilderAgent {
         agentId: this.id,
         requestId,
       });
-      void this.loop();
-      return;
+      return this.loop();
     }
 
     if (event.type === "ToolResult" && event.target === this.id) {
+      // late result for a turn that already stopped (max-steps, interrupt)
+      if (!this.currentReqId) return;
       const truncated = event.data.slice(0, 2000);
-      // Add observation to convo as user turn so planner can react
+      // the observation goes back to the planner as a tool result
       this.convo.push({
-        role: "user",
-        content: `TOOL(${event.tool}) -> ${
-          event.ok ? "ok" : "error"
-        }\n${truncated}`,
+        role: "tool",
+        tool: event.tool,
+        ok: event.ok,
+        content: truncated,
       });
       this.onUpdate({
         kind: "observation",
@@ -214,11 +336,11 @@ export class BuilderAgent {
         ok: event.ok,
         data: truncated,
       });
-      void this.loop();
-      return;
+      return this.loop();
     }
 
     if (event.type === "LlmError" && event.target === this.id) {
+      if (this.interrupted) return;
       this.onUpdate({
         kind: "error",
         phase: "llm",
@@ -232,11 +354,8 @@ export class BuilderAgent {
   /* ---------------------------- Planner Loop ---------------------------- */
 
   private async loop() {
-    if (this.interrupted) {
-      this.onUpdate({ kind: "status", status: "interrupted" });
-      this.emitPlanningStop("interrupted");
-      return;
-    }
+    // interrupt() already reported the stop
+    if (this.interrupted) return;
     if (this.steps >= this.MAX_STEPS) {
       this.onUpdate({ kind: "status", status: "max-steps" });
       this.emitPlanningStop(
@@ -247,14 +366,10 @@ export class BuilderAgent {
     }
     this.steps++;
 
-    const prompt =
-      this.convo
-        .map((m) => `${m.role.toUpperCase()}: ${m.content}`)
-        .join("\n\n") +
-      `\n\nReturn ONLY JSON: {"schema_version":1,"message":{...}} matching the schema exactly.`;
-
-    // 1) get model text once (non-streaming)
-    let raw: string | null = await this.llmOnce(prompt, this.id).catch((e) => {
+    // 1) stream the model's next turn
+    let raw: string | null = await this.llmTurn("plan").catch((e) => {
+      if (this.interrupted) return null;
+      if (e instanceof BudgetExceededError) return this.overBudget(e);
       const message = String(e?.message ?? e);
       this.onUpdate({
         kind: "error",
@@ -271,17 +386,13 @@ export class BuilderAgent {
       const repairMsg =
         `Your last response was invalid.\n` +
         `Validation error(s):\n${repairHint}\n\n` +
-        `Re-emit ONLY a correct JSON object: {"schema_version":1,"message":{...}}. No extra text.`;
+        `Re-emit the turn, corrected.`;
 
       this.convo.push({ role: "user", content: repairMsg });
-      const reOut = await this.llmOnce(
-        this.convo
-          .map((m) => `${m.role.toUpperCase()}: ${m.content}`)
-          .join("\n\n") + `\n\nReturn ONLY JSON matching the schema.`,
-        this.id
-      );
-      return reOut;
+      return this.llmTurn("repair");
     }).catch((e) => {
+      if (this.interrupted) return null;
+      if (e instanceof BudgetExceededError) return this.overBudget(e);
       const message = `planner output invalid: ${String(e?.message ?? e)}`;
       this.onUpdate({
         kind: "error",
@@ -291,7 +402,7 @@ export class BuilderAgent {
       this.emitPlanningStop("error", message);
       return null;
     });
-    if (!turn) return;
+    if (!turn || this.interrupted) return;
 
     // 3) record model message as assistant turn (raw JSON)
     this.convo.push({
@@ -303,6 +414,12 @@ export class BuilderAgent {
     await this.handleMessage(turn.message);
   }
 
+  private overBudget(err: BudgetExceededError): null {
+    this.onUpdate({ kind: "status", status: "budget", detail: err.message });
+    this.emitPlanningStop("budget", err.message);
+    return null;
+  }
+
   /* ----------------------- Message Handling / Actions ------------------- */
 
   private async handleMessage(msg: PlannerMsg) {
@@ -314,8 +431,7 @@ export class BuilderAgent {
           goal: msg.goal,
           ...(msg.say ? { say: msg.say } : {}),
         });
-        void this.loop();
-        return;
+        return this.loop();
       }
       case "action": {
         this.onUpdate({
@@ -326,7 +442,7 @@ export class BuilderAgent {
           args: msg.args,
           ...(msg.say ? { say: msg.say } : {}),
         });
-        this.submitEffect({
+        this.ctx.submit({
           kind: "ToolCall",
           tool: msg.tool,
           args: msg.args,
@@ -345,8 +461,7 @@ export class BuilderAgent {
             ...(msg.say ? { say: msg.say } : {}),
           },
         });
-        void this.loop();
-        return;
+        return this.loop();
       }
       case "final": {
         this.onUpdate({
@@ -0,0 +1,18 @@
+// clock.ts
+
+/**
+ * Time source used by the scheduler for timestamps, deadlines and delayed
+ * tasks. Swap in a manual implementation to drive time from tests.
+ */
+export interface Clock {
+  now(): number;
+  setTimer(fn: () => void, ms: number): unknown;
+  clearTimer(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimer: (fn, ms) => setTimeout(fn, ms),
+  clearTimer: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
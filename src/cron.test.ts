@@ -0,0 +1,29 @@
+import { describe, expect, test } from "bun:test";
+import { nextCronTime, parseCron } from "./cron.js";
+
+const at = (...args: [number, number, number, number, number]) =>
+  new Date(...args).getTime();
+
+describe("nextCronTime", () => {
+  test("finds the next matching minute strictly after the given time", () => {
+    expect(nextCronTime("30 9 * * *", at(2024, 0, 1, 9, 30))).toBe(
+      at(2024, 0, 2, 9, 30)
+    );
+    expect(nextCronTime("0-10/5 * * * *", at(2024, 0, 1, 9, 7))).toBe(
+      at(2024, 0, 1, 9, 10)
+    );
+  });
+
+  test("matches either day field when both are restricted", () => {
+    // 2024-01-01 is a Monday; next is Friday the 5th or the 10th
+    expect(nextCronTime("0 0 10 * 5", at(2024, 0, 1, 12, 0))).toBe(
+      at(2024, 0, 5, 0, 0)
+    );
+  });
+
+  test("rejects malformed expressions", () => {
+    expect(() => parseCron("* * *")).toThrow();
+    expect(() => parseCron("61 * * * *")).toThrow();
+    expect(() => parseCron("*/0 * * * *")).toThrow();
+  });
+});
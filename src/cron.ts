@@ -0,0 +1,114 @@
+// cron.ts
+//
+// Minimal 5-field cron ("minute hour day-of-month month day-of-week") in
+// local time. Supports `*`, numbers, ranges `a-b`, steps `*/n` / `a-b/n` and
+// comma lists. Day-of-week accepts 0-7 with both 0 and 7 meaning Sunday.
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Standard cron rule: if both day fields are restricted, either matches. */
+  anyDay: boolean;
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day-of-month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day-of-week", min: 0, max: 7 },
+] as const;
+
+function parseField(
+  src: string,
+  { name, min, max }: (typeof FIELDS)[number]
+): Set<number> {
+  const out = new Set<number>();
+  for (const part of src.split(",")) {
+    const [range, stepSrc] = part.split("/");
+    const step = stepSrc === undefined ? 1 : Number(stepSrc);
+    let lo: number = min;
+    let hi: number = max;
+    if (range !== "*") {
+      const [a, b] = range!.split("-");
+      lo = Number(a);
+      hi = b === undefined ? (stepSrc === undefined ? lo : max) : Number(b);
+    }
+    if (
+      !Number.isInteger(lo) ||
+      !Number.isInteger(hi) ||
+      !Number.isInteger(step) ||
+      step < 1 ||
+      lo < min ||
+      hi > max ||
+      lo > hi
+    ) {
+      throw new Error(`invalid cron ${name} field: ${src}`);
+    }
+    for (let v = lo; v <= hi; v += step) out.add(v);
+  }
+  return out;
+}
+
+export function parseCron(expr: string): CronSchedule {
+  const parts = expr.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`invalid cron expression (expected 5 fields): ${expr}`);
+  }
+  const [minutes, hours, days, months, weekdays] = parts.map((p, i) =>
+    parseField(p, FIELDS[i]!)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+  if (weekdays.delete(7)) weekdays.add(0);
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: parts[2] !== "*" && parts[4] !== "*",
+  };
+}
+
+function dayMatches(s: CronSchedule, d: Date): boolean {
+  const dom = s.days.has(d.getDate());
+  const dow = s.weekdays.has(d.getDay());
+  return s.anyDay ? dom || dow : dom && dow;
+}
+
+/** First matching minute strictly after `after` (epoch ms). */
+export function nextCronTime(
+  schedule: CronSchedule | string,
+  after: number
+): number {
+  const s = typeof schedule === "string" ? parseCron(schedule) : schedule;
+  const d = new Date(after);
+  d.setSeconds(0, 0);
+  d.setMinutes(d.getMinutes() + 1);
+  // bounded search: every valid expression matches within a few years
+  const limit = after + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (d.getTime() <= limit) {
+    if (!s.months.has(d.getMonth() + 1)) {
+      d.setMonth(d.getMonth() + 1, 1);
+      d.setHours(0, 0);
+      continue;
+    }
+    if (!dayMatches(s, d)) {
+      d.setDate(d.getDate() + 1);
+      d.setHours(0, 0);
+      continue;
+    }
+    if (!s.hours.has(d.getHours())) {
+      d.setHours(d.getHours() + 1, 0);
+      continue;
+    }
+    if (!s.minutes.has(d.getMinutes())) {
+      d.setMinutes(d.getMinutes() + 1);
+      continue;
+    }
+    return d.getTime();
+  }
+  throw new Error("cron expression never matches");
+}
@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Logger } from "../logger.js";
+import { collect } from "../testing/collect.js";
+import { FakeSseServer } from "../testing/fake-sse-server.js";
+import { AnthropicMessagesPort } from "./anthropic-port.js";
+import { HttpStatusError } from "./http-error.js";
+import type { LlmMessage, LlmUsage } from "./llm-port.js";
+import { llmConfigFromEnv } from "./providers.js";
+
+const quiet = new Logger("");
+
+const text = (t: string) => ({
+  event: "content_block_delta",
+  data: {
+    type: "content_block_delta",
+    index: 0,
+    delta: { type: "text_delta", text: t },
+  },
+});
+
+const stop = (reason: string) => [
+  {
+    event: "message_delta",
+    data: { type: "message_delta", delta: { stop_reason: reason } },
+  },
+  { event: "message_stop", data: { type: "message_stop" } },
+];
+
+const hi: LlmMessage[] = [{ role: "user", content: "hi" }];
+
+describe("AnthropicMessagesPort", () => {
+  let server: FakeSseServer;
+  let port: AnthropicMessagesPort;
+  beforeEach(() => {
+    server = FakeSseServer.start();
+    port = new AnthropicMessagesPort("key", server.url, "model-x", quiet);
+  });
+  afterEach(() => server.stop());
+
+  test("streams text deltas of a Messages request", async () => {
+    server.reply({
+      events: [
+        {
+          event: "message_start",
+          data: {
+            type: "message_start",
+            message: {
+              model: "model-x-1",
+              usage: {
+                input_tokens: 20,
+                cache_read_input_tokens: 100,
+                cache_creation_input_tokens: 5,
+                output_tokens: 1,
+              },
+            },
+          },
+        },
+        { event: "ping", data: { type: "ping" } },
+        text("Hel"),
+        text("lo"),
+        {
+          event: "message_delta",
+          data: {
+            type: "message_delta",
+            delta: { stop_reason: "end_turn" },
+            usage: { output_tokens: 9 },
+          },
+        },
+        { event: "message_stop", data: { type: "message_stop" } },
+      ],
+    });
+    const usage: LlmUsage[] = [];
+
+    const out = await collect(
+      port.generate(hi, { onUsage: (u) => usage.push(u) })
+    );
+    expect(out).toEqual(["Hel", "lo"]);
+    expect(usage).toEqual([
+      {
+        model: "model-x-1",
+        inputTokens: 125,
+        outputTokens: 9,
+        cachedTokens: 100,
+      },
+    ]);
+    const [req] = server.requests;
+    expect(req!.path).toBe("/v1/messages");
+    expect(req!.headers.get("x-api-key")).toBe("key");
+    expect(req!.headers.get("anthropic-version")).toBe("2023-06-01");
+    expect(req!.body).toMatchObject({
+      model: "model-x",
+      messages: [{ role: "user", content: "hi" }],
+      stream: true,
+    });
+  });
+
+  test("forces a tool call for a schema and streams its input", async () => {
+    const schema = { type: "object", properties: { a: { type: "number" } } };
+    const json = (partial_json: string) => ({
+      data: {
+        type: "content_block_delta",
+        index: 0,
+        delta: { type: "input_json_delta", partial_json },
+      },
+    });
+    server.reply({
+      events: [json('{"a":'), json("1}"), ...stop("tool_use")],
+    });
+
+    const out = await collect(
+      port.generate(hi, { schema: { name: "turn", schema } })
+    );
+    expect(out.join("")).toBe('{"a":1}');
+    expect(server.requests[0]!.body).toMatchObject({
+      tools: [{ name: "turn", input_schema: schema }],
+      tool_choice: { type: "tool", name: "turn" },
+    });
+  });
+
+  test("turns error events into retryable status errors", async () => {
+    server.reply({
+      events: [
+        text("partial"),
+        {
+          event: "error",
+          data: {
+            type: "error",
+            error: { type: "overloaded_error", message: "Overloaded" },
+          },
+        },
+      ],
+    });
+
+    const err = await collect(port.generate(hi)).catch((e) => e);
+    expect(err).toBeInstanceOf(HttpStatusError);
+    expect(err.status).toBe(529);
+    expect(err.message).toBe("overloaded_error: Overloaded");
+  });
+
+  test("maps system prompts and tool results to Messages turns", async () => {
+    server.reply({ events: [text("ok"), ...stop("end_turn")] });
+
+    await collect(
+      port.generate([
+        { role: "system", content: "be brief" },
+        { role: "user", content: "read a" },
+        { role: "assistant", content: "{}" },
+        { role: "tool", tool: "fs", ok: true, content: "A" },
+        { role: "user", content: "thanks" },
+      ])
+    );
+    expect(server.requests[0]!.body).toMatchObject({
+      system: [{ type: "text", text: "be brief" }],
+      messages: [
+        { role: "user", content: "read a" },
+        { role: "assistant", content: "{}" },
+        { role: "user", content: "TOOL(fs) -> ok\nA\n\nthanks" },
+      ],
+    });
+  });
+
+  test("fails on HTTP errors and on replies cut short", async () => {
+    server
+      .reply({ status: 429, headers: { "retry-after": "2" }, body: "slow" })
+      .reply({ events: [text("half a"), ...stop("max_tokens")] });
+
+    const err = await collect(port.generate(hi)).catch((e) => e);
+    expect(err).toBeInstanceOf(HttpStatusError);
+    expect(err.status).toBe(429);
+    expect(err.retryAfterMs).toBe(2000);
+
+    await expect(collect(port.generate(hi))).rejects.toThrow(
+      "Anthropic stopped early: max_tokens"
+    );
+  });
+});
+
+describe("llmConfigFromEnv", () => {
+  test("picks the provider by name or by which key is set", () => {
+    expect(llmConfigFromEnv({ ANTHROPIC_API_KEY: "a" })).toEqual({
+      provider: "anthropic",
+      apiKey: "a",
+    });
+    expect(
+      llmConfigFromEnv({
+        THOM_LLM_PROVIDER: "anthropic",
+        THOM_LLM_MODEL: "m",
+        OPENAI_API_KEY: "o",
+      })
+    ).toEqual({ provider: "anthropic", model: "m" });
+    expect(llmConfigFromEnv({ OPENAI_API_KEY: "o" }).provider).toBe("openai");
+    expect(() => llmConfigFromEnv({ THOM_LLM_PROVIDER: "x" })).toThrow();
+  });
+});
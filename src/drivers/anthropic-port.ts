@@ -0,0 +1,219 @@
+// drivers/anthropic-port.ts
+import { Logger } from "../logger.js";
+import { HttpStatusError, parseRetryAfter } from "./http-error.js";
+import {
+  ChatTurn,
+  GenerateOptions,
+  LlmMessage,
+  LlmPort,
+  LlmUsage,
+  splitSystem,
+  transcript,
+} from "./llm-port.js";
+import { sseEvents } from "./sse.js";
+
+const API_VERSION = "2023-06-01";
+
+// error events arrive mid-stream with a 200; map them onto HTTP statuses so
+// the retry policy treats them like the same failure before the stream
+const ERROR_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+// stop reasons that mean the reply is cut short or withheld
+const FAILED_STOPS = new Set(["max_tokens", "refusal"]);
+
+// Messages wants user and assistant turns to alternate: merge runs of one role
+function alternate(turns: ChatTurn[]): ChatTurn[] {
+  const out: ChatTurn[] = [];
+  for (const turn of turns) {
+    const last = out[out.length - 1];
+    if (last?.role === turn.role) {
+      out[out.length - 1] = {
+        role: turn.role,
+        content: `${last.content}\n\n${turn.content}`,
+      };
+    } else out.push(turn);
+  }
+  return out;
+}
+
+/** Streams text from the Anthropic Messages API. */
+export class AnthropicMessagesPort implements LlmPort {
+  constructor(
+    private apiKey: string,
+    private baseUrl = "https://api.anthropic.com/v1",
+    private model = "claude-sonnet-4-5",
+    private logger?: Logger,
+    private maxTokens = 8192
+  ) {}
+
+  private _log(entry: object) {
+    this.logger
+      ?.append({ ts: Date.now(), kind: "anthropic", ...entry })
+      .catch(() => {});
+  }
+
+  modelFor(): string {
+    return this.model;
+  }
+
+  async *generate(
+    messages: LlmMessage[],
+    opts?: GenerateOptions
+  ): AsyncIterable<string> {
+    const startedAt = Date.now();
+    const requestId =
+      "anthropic-" +
+      startedAt.toString(36) +
+      "-" +
+      Math.random().toString(36).slice(2, 8);
+    this._log({
+      phase: "start",
+      requestId,
+      model: this.model,
+      promptPreview: transcript(messages.slice(-1)).slice(0, 120),
+    });
+    opts?.onModel?.(this.model);
+
+    const { system, turns } = splitSystem(messages);
+    let tokenCount = 0;
+    let stopReason: string | undefined;
+    // message_start reports the prompt, message_delta the output so far
+    let usage: LlmUsage | undefined;
+    try {
+      const res = await fetch(`${this.baseUrl}/messages`, {
+        method: "POST",
+        headers: {
+          "x-api-key": this.apiKey,
+          "anthropic-version": API_VERSION,
+          "Content-Type": "application/json",
+          Accept: "text/event-stream",
+        },
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: this.maxTokens,
+          // the system prompt rarely changes, so let it be cached
+          ...(system && {
+            system: [
+              {
+                type: "text",
+                text: system,
+                cache_control: { type: "ephemeral" },
+              },
+            ],
+          }),
+          messages: alternate(turns),
+          stream: true,
+          // a forced tool call is how Messages returns schema-shaped JSON
+          ...(opts?.schema && {
+            tools: [
+              {
+                name: opts.schema.name,
+                description: opts.schema.description,
+                input_schema: opts.schema.schema,
+              },
+            ],
+            tool_choice: { type: "tool", name: opts.schema.name },
+          }),
+        }),
+        signal: opts?.signal ?? null,
+      });
+
+      if (!res.ok || !res.body) {
+        const detail = await res.text().catch(() => "");
+        throw new HttpStatusError(
+          `Anthropic HTTP ${res.status}${detail ? `: ${detail}` : ""}`,
+          res.status,
+          parseRetryAfter(res.headers.get("retry-after"))
+        );
+      }
+
+      for await (const { data } of sseEvents(res.body)) {
+        let evt: any;
+        try {
+          evt = JSON.parse(data);
+        } catch {
+          continue;
+        }
+
+        if (evt?.type === "error") {
+          const type = evt.error?.type ?? "error";
+          const message = `${type}: ${evt.error?.message ?? "stream error"}`;
+          const status = ERROR_STATUS[type];
+          throw status
+            ? new HttpStatusError(message, status)
+            : new Error(message);
+        }
+        if (evt?.type === "content_block_delta") {
+          // text, or the tool input JSON when a schema was requested
+          const text =
+            evt.delta?.type === "text_delta"
+              ? evt.delta.text
+              : evt.delta?.type === "input_json_delta"
+              ? evt.delta.partial_json
+              : undefined;
+          if (typeof text === "string" && text) {
+            tokenCount++;
+            yield text;
+          }
+          continue;
+        }
+        if (evt?.type === "message_start" && evt.message?.usage) {
+          const u = evt.message.usage;
+          const cached = u.cache_read_input_tokens ?? 0;
+          usage = {
+            model: evt.message.model ?? this.model,
+            // input_tokens leaves out what was read from or written to cache
+            inputTokens:
+              (u.input_tokens ?? 0) +
+              cached +
+              (u.cache_creation_input_tokens ?? 0),
+            outputTokens: u.output_tokens ?? 0,
+            cachedTokens: cached,
+          };
+          continue;
+        }
+        if (evt?.type === "message_delta") {
+          if (evt.delta?.stop_reason) stopReason = evt.delta.stop_reason;
+          if (usage && evt.usage?.output_tokens !== undefined) {
+            usage.outputTokens = evt.usage.output_tokens;
+          }
+          continue;
+        }
+        if (evt?.type === "message_stop") break;
+        // content_block_start/stop, ping: nothing to yield
+      }
+
+      if (usage) opts?.onUsage?.(usage);
+
+      if (stopReason && FAILED_STOPS.has(stopReason)) {
+        throw new Error(`Anthropic stopped early: ${stopReason}`);
+      }
+      this._log({
+        phase: "end",
+        requestId,
+        durationMs: Date.now() - startedAt,
+        tokens: tokenCount,
+        stopReason,
+      });
+    } catch (e: any) {
+      this._log({
+        phase: "error",
+        requestId,
+        ...(e?.name === "AbortError"
+          ? { aborted: true }
+          : { message: e?.message || String(e) }),
+        durationMs: Date.now() - startedAt,
+      });
+      throw e;
+    }
+  }
+}
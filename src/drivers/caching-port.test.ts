@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Logger } from "../logger.js";
+import { collect } from "../testing/collect.js";
+import { VirtualClock } from "../testing/virtual-clock.js";
+import { CachingLlmPort } from "./caching-port.js";
+import { FakeLlmPort } from "./fake-llm-port.js";
+import type { LlmMessage } from "./llm-port.js";
+
+const user = (content: string): LlmMessage[] => [{ role: "user", content }];
+
+describe("CachingLlmPort", () => {
+  let dir: string;
+  let clock: VirtualClock;
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "thom-cache-"));
+    clock = new VirtualClock(1_000_000);
+  });
+
+  test("replays stored chunks for the same prompt and model", async () => {
+    const inner = new FakeLlmPort({
+      model: "m",
+      chunkSize: 3,
+      replies: [
+        {
+          reply: "hello world",
+          repeat: true,
+          usage: { inputTokens: 5, outputTokens: 2 },
+        },
+      ],
+    });
+    const port = new CachingLlmPort(inner, { dir }, clock);
+    const served: string[] = [];
+    const onModel = (m: string) => served.push(m);
+    let usage = 0;
+    const onUsage = () => usage++;
+
+    const first = await collect(port.generate(user("hi"), { onUsage }));
+    const again = await collect(
+      port.generate(user("  hi\r\n"), { onModel, onUsage })
+    );
+    expect(again).toEqual(first);
+    expect(first).toEqual(["hel", "lo ", "wor", "ld"]);
+    expect(inner.prompts).toHaveLength(1);
+    expect(served).toEqual(["m"]);
+    // nothing was spent on the hit
+    expect(usage).toBe(1);
+
+    await collect(port.generate(user("hi"), { cache: false }));
+    await collect(
+      port.generate(user("hi"), { schema: { name: "s", schema: {} } })
+    );
+    expect(inner.prompts).toHaveLength(3);
+  });
+
+  test("expires entries after their TTL and keeps failures out", async () => {
+    const inner = new FakeLlmPort({
+      replies: [
+        { error: { message: "overloaded", status: 529 } },
+        { reply: "a" },
+        { reply: "b" },
+      ],
+    });
+    const port = new CachingLlmPort(inner, { dir, ttlMs: 1000 }, clock);
+    const ask = async () => (await collect(port.generate(user("q")))).join("");
+
+    await expect(ask()).rejects.toThrow("overloaded");
+    expect(await ask()).toBe("a");
+    clock.advance(1000);
+    expect(await ask()).toBe("a");
+    clock.advance(1);
+    expect(await ask()).toBe("b");
+  });
+
+  test("evicts the least recently used entries past the size cap", async () => {
+    const inner = new FakeLlmPort({
+      replies: [{ reply: "x".repeat(100), repeat: true }],
+    });
+    // room for two entries of ~150 bytes
+    const port = new CachingLlmPort(inner, { dir, maxBytes: 350 }, clock);
+    const ask = async (q: string) => {
+      clock.advance(1000);
+      await collect(port.generate(user(q)));
+    };
+
+    await ask("a");
+    await ask("b");
+    await ask("a");
+    await ask("c");
+    expect(await readdir(dir)).toHaveLength(2);
+    expect(inner.prompts).toHaveLength(3);
+
+    await ask("a");
+    expect(inner.prompts).toHaveLength(3);
+    await ask("b");
+    expect(inner.prompts).toHaveLength(4);
+  });
+
+  test("a cache that cannot be written does not fail the reply", async () => {
+    const logged: unknown[] = [];
+    const logger = new (class extends Logger {
+      override async append(entry: unknown) {
+        logged.push(entry);
+      }
+    })("");
+    // a regular file where the cache directory should be
+    const blocked = join(dir, "blocked");
+    await writeFile(blocked, "");
+    const inner = new FakeLlmPort({ replies: [{ reply: "ok" }] });
+    const port = new CachingLlmPort(inner, { dir: blocked }, clock, logger);
+
+    expect(await collect(port.generate(user("q")))).toEqual(["ok"]);
+    expect(logged).toEqual([
+      expect.objectContaining({
+        kind: "llm-cache",
+        error: expect.stringContaining("failed to store"),
+      }),
+    ]);
+  });
+
+  test("identical requests finishing together both succeed", async () => {
+    const inner = new FakeLlmPort({
+      replies: [{ reply: "same", repeat: true }],
+    });
+    const port = new CachingLlmPort(inner, { dir }, clock);
+
+    const both = await Promise.all([
+      collect(port.generate(user("q"))),
+      collect(port.generate(user("q"))),
+    ]);
+    expect(both).toEqual([["same"], ["same"]]);
+    expect(await readdir(dir)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,177 @@
+// drivers/caching-port.ts
+import { createHash, randomUUID } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  stat,
+  unlink,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+import { Clock, systemClock } from "../clock.js";
+import { Logger } from "../logger.js";
+import type { GenerateOptions, LlmMessage, LlmPort } from "./llm-port.js";
+
+export type LlmCacheOptions = {
+  /** Directory holding one JSON file per cached response. */
+  dir: string;
+  /** Entries older than this are ignored and replaced. */
+  ttlMs?: number;
+  /** Least recently used entries go once the directory outgrows this. */
+  maxBytes?: number;
+};
+
+type CacheEntry = {
+  /** Model that served the response, reported again on every hit. */
+  model: string;
+  createdAt: number;
+  chunks: string[];
+};
+
+// line endings and surrounding whitespace do not change the answer
+const normalize = (m: LlmMessage): LlmMessage => ({
+  ...m,
+  content: m.content.replace(/\r\n/g, "\n").trim(),
+});
+
+/*
+  Serves repeated requests from disk. The key covers the normalized
+  messages, the model and the output schema; a hit replays the stored
+  chunks in order, so streaming consumers see what the model sent. Hits
+  cost nothing and report no usage. Only replies that completed are kept.
+  File times record last use, on the given clock, to pick what to evict.
+  The cache is best effort: when its directory cannot be written the
+  failure is logged and the reply goes through all the same.
+*/
+export class CachingLlmPort implements LlmPort {
+  constructor(
+    private inner: LlmPort,
+    private options: LlmCacheOptions,
+    private clock: Clock = systemClock,
+    private logger?: Logger
+  ) {}
+
+  modelFor(opts?: GenerateOptions): string {
+    return this.inner.modelFor?.(opts) ?? "unknown";
+  }
+
+  async *generate(
+    messages: LlmMessage[],
+    opts?: GenerateOptions
+  ): AsyncIterable<string> {
+    if (opts?.cache === false) {
+      yield* this.inner.generate(messages, opts);
+      return;
+    }
+    const file = join(this.options.dir, `${this.key(messages, opts)}.json`);
+    const hit = await this.read(file);
+    if (hit) {
+      opts?.onModel?.(hit.model);
+      for (const chunk of hit.chunks) {
+        opts?.signal?.throwIfAborted();
+        yield chunk;
+      }
+      return;
+    }
+
+    const entry: CacheEntry = {
+      model: this.modelFor(opts),
+      createdAt: this.clock.now(),
+      chunks: [],
+    };
+    const onModel = (model: string) => {
+      entry.model = model;
+      opts?.onModel?.(model);
+    };
+    for await (const chunk of this.inner.generate(messages, {
+      ...opts,
+      onModel,
+    })) {
+      entry.chunks.push(chunk);
+      yield chunk;
+    }
+    if (opts?.signal?.aborted) return;
+    await this.write(file, entry).catch((err) =>
+      this.logger
+        ?.append({
+          ts: Date.now(),
+          kind: "llm-cache",
+          error: `failed to store ${file}: ${err?.message ?? err}`,
+        })
+        .catch(() => {})
+    );
+  }
+
+  private key(messages: LlmMessage[], opts?: GenerateOptions): string {
+    return createHash("sha256")
+      .update(
+        JSON.stringify({
+          model: this.modelFor(opts),
+          messages: messages.map(normalize),
+          schema: opts?.schema ?? null,
+        })
+      )
+      .digest("hex");
+  }
+
+  private async read(file: string): Promise<CacheEntry | undefined> {
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await readFile(file, "utf8"));
+    } catch {
+      // missing, or torn by a crash: either way a miss
+      return undefined;
+    }
+    const now = this.clock.now();
+    const { ttlMs } = this.options;
+    if (ttlMs !== undefined && now - entry.createdAt > ttlMs) {
+      await unlink(file).catch(() => {});
+      return undefined;
+    }
+    await this.touch(file, now);
+    return entry;
+  }
+
+  private async write(file: string, entry: CacheEntry) {
+    await mkdir(this.options.dir, { recursive: true });
+    // write then rename, so readers never see half an entry; each writer
+    // has its own temp file, as identical requests may finish together
+    const tmp = `${file}.${randomUUID()}.tmp`;
+    try {
+      await writeFile(tmp, JSON.stringify(entry), "utf8");
+      await rename(tmp, file);
+    } catch (err) {
+      await unlink(tmp).catch(() => {});
+      throw err;
+    }
+    await this.touch(file, this.clock.now());
+    await this.evict();
+  }
+
+  private async touch(file: string, at: number) {
+    const time = new Date(at);
+    await utimes(file, time, time).catch(() => {});
+  }
+
+  private async evict() {
+    const { dir, maxBytes } = this.options;
+    if (maxBytes === undefined) return;
+    const files = [];
+    for (const name of await readdir(dir)) {
+      if (!name.endsWith(".json")) continue;
+      const path = join(dir, name);
+      const info = await stat(path).catch(() => undefined);
+      if (info) files.push({ path, size: info.size, usedAt: info.mtimeMs });
+    }
+    let total = files.reduce((sum, f) => sum + f.size, 0);
+    files.sort((a, b) => a.usedAt - b.usedAt);
+    for (const f of files) {
+      if (total <= maxBytes) break;
+      await unlink(f.path).catch(() => {});
+      total -= f.size;
+    }
+  }
+}
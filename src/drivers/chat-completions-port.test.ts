@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Logger } from "../logger.js";
+import { collect } from "../testing/collect.js";
+import { FakeSseServer } from "../testing/fake-sse-server.js";
+import { ChatCompletionsPort } from "./chat-completions-port.js";
+import { HttpStatusError } from "./http-error.js";
+import type { LlmMessage } from "./llm-port.js";
+import { createLlmPort, llmConfigFromEnv } from "./providers.js";
+
+const quiet = new Logger("");
+
+const delta = (content: string, finish_reason: string | null = null) => ({
+  data: { choices: [{ index: 0, delta: { content }, finish_reason }] },
+});
+
+const hi: LlmMessage[] = [{ role: "user", content: "hi" }];
+
+describe("ChatCompletionsPort", () => {
+  let server: FakeSseServer;
+  beforeEach(() => {
+    server = FakeSseServer.start();
+  });
+  afterEach(() => server.stop());
+
+  test("streams content deltas until [DONE] without an API key", async () => {
+    server.reply({
+      events: [
+        delta("Hel"),
+        delta("lo"),
+        delta("", "stop"),
+        { data: "[DONE]" },
+        delta("ignored"),
+      ],
+    });
+    const port = new ChatCompletionsPort(server.url, "llama", undefined, quiet);
+
+    expect(await collect(port.generate(hi))).toEqual(["Hel", "lo"]);
+    const [req] = server.requests;
+    expect(req!.path).toBe("/v1/chat/completions");
+    expect(req!.headers.get("authorization")).toBeNull();
+    expect(req!.body).toEqual({
+      model: "llama",
+      messages: [{ role: "user", content: "hi" }],
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+  });
+
+  test("asks for a JSON schema response format", async () => {
+    server.reply({
+      events: [delta('{"ok":true}', "stop"), { data: "[DONE]" }],
+    });
+    const port = new ChatCompletionsPort(server.url, "llama", undefined, quiet);
+    const schema = { type: "object" };
+
+    const out = await collect(
+      port.generate(hi, { schema: { name: "turn", schema } })
+    );
+    expect(out).toEqual(['{"ok":true}']);
+    expect(server.requests[0]!.body.response_format).toEqual({
+      type: "json_schema",
+      json_schema: { name: "turn", schema, strict: false },
+    });
+  });
+
+  test("sends the key when configured and surfaces failures", async () => {
+    server
+      .reply({ status: 503, body: "loading model" })
+      .reply({ events: [{ data: { error: { message: "bad" } } }] })
+      .reply({ events: [delta("cut")] });
+    const port = createLlmPort(
+      { provider: "openai-chat", baseUrl: server.url, apiKey: "k" },
+      quiet
+    );
+
+    const err = await collect(port.generate(hi)).catch((e) => e);
+    expect(err).toBeInstanceOf(HttpStatusError);
+    expect(err.status).toBe(503);
+    expect(server.requests[0]!.headers.get("authorization")).toBe("Bearer k");
+    await expect(collect(port.generate(hi))).rejects.toThrow("bad");
+    await expect(collect(port.generate(hi))).rejects.toThrow(
+      "ended before [DONE]"
+    );
+  });
+
+  test("takes its key from THOM_LLM_API_KEY alone", async () => {
+    server.reply({ events: [delta("a", "stop")] }).reply({
+      events: [delta("b", "stop")],
+    });
+    const env = {
+      THOM_LLM_PROVIDER: "openai-chat",
+      THOM_LLM_BASE_URL: server.url,
+      OPENAI_API_KEY: "o",
+    };
+
+    await collect(createLlmPort(llmConfigFromEnv(env), quiet).generate(hi));
+    await collect(
+      createLlmPort(
+        llmConfigFromEnv({ ...env, THOM_LLM_API_KEY: "t" }),
+        quiet
+      ).generate(hi)
+    );
+    const auth = server.requests.map((r) => r.headers.get("authorization"));
+    expect(auth).toEqual([null, "Bearer t"]);
+  });
+});
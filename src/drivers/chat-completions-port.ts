@@ -0,0 +1,161 @@
+// drivers/chat-completions-port.ts
+import { Logger } from "../logger.js";
+import { HttpStatusError, parseRetryAfter } from "./http-error.js";
+import {
+  GenerateOptions,
+  LlmMessage,
+  LlmPort,
+  splitSystem,
+  transcript,
+} from "./llm-port.js";
+import { sseEvents } from "./sse.js";
+
+/*
+  Streams text from an OpenAI-compatible `/chat/completions` endpoint, as
+  served by llama.cpp, Ollama, vLLM and OpenAI itself. Local servers usually
+  need no API key; the Authorization header is only sent when one is given.
+*/
+export class ChatCompletionsPort implements LlmPort {
+  constructor(
+    private baseUrl = "http://localhost:8080/v1",
+    private model = "default",
+    private apiKey?: string,
+    private logger?: Logger
+  ) {}
+
+  private _log(entry: object) {
+    this.logger
+      ?.append({ ts: Date.now(), kind: "chat-completions", ...entry })
+      .catch(() => {});
+  }
+
+  modelFor(): string {
+    return this.model;
+  }
+
+  async *generate(
+    messages: LlmMessage[],
+    opts?: GenerateOptions
+  ): AsyncIterable<string> {
+    const startedAt = Date.now();
+    const requestId =
+      "chat-" +
+      startedAt.toString(36) +
+      "-" +
+      Math.random().toString(36).slice(2, 8);
+    this._log({
+      phase: "start",
+      requestId,
+      baseUrl: this.baseUrl,
+      model: this.model,
+      promptPreview: transcript(messages.slice(-1)).slice(0, 120),
+    });
+    opts?.onModel?.(this.model);
+
+    const { system, turns } = splitSystem(messages);
+    let tokenCount = 0;
+    let finishReason: string | undefined;
+    try {
+      const res = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+          "Content-Type": "application/json",
+          Accept: "text/event-stream",
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages: system
+            ? [{ role: "system", content: system }, ...turns]
+            : turns,
+          stream: true,
+          // ask for a final chunk carrying the request's token usage
+          stream_options: { include_usage: true },
+          ...(opts?.schema && {
+            response_format: {
+              type: "json_schema",
+              json_schema: {
+                name: opts.schema.name,
+                description: opts.schema.description,
+                schema: opts.schema.schema,
+                strict: false,
+              },
+            },
+          }),
+        }),
+        signal: opts?.signal ?? null,
+      });
+
+      if (!res.ok || !res.body) {
+        const detail = await res.text().catch(() => "");
+        throw new HttpStatusError(
+          `Chat completions HTTP ${res.status}${detail ? `: ${detail}` : ""}`,
+          res.status,
+          parseRetryAfter(res.headers.get("retry-after"))
+        );
+      }
+
+      let done = false;
+      for await (const { data } of sseEvents(res.body)) {
+        if (data === "[DONE]") {
+          done = true;
+          break;
+        }
+        let evt: any;
+        try {
+          evt = JSON.parse(data);
+        } catch {
+          continue;
+        }
+
+        // servers report failures mid-stream as a bare error object
+        if (evt?.error) {
+          const message = evt.error.message ?? String(evt.error);
+          const status = Number(evt.error.code);
+          throw Number.isInteger(status) && status >= 400
+            ? new HttpStatusError(message, status)
+            : new Error(message);
+        }
+        const choice = evt?.choices?.[0];
+        const content = choice?.delta?.content;
+        if (typeof content === "string" && content) {
+          tokenCount++;
+          yield content;
+        }
+        if (choice?.finish_reason) finishReason = choice.finish_reason;
+        if (evt?.usage) {
+          opts?.onUsage?.({
+            model: evt.model ?? this.model,
+            inputTokens: evt.usage.prompt_tokens ?? 0,
+            outputTokens: evt.usage.completion_tokens ?? 0,
+            cachedTokens: evt.usage.prompt_tokens_details?.cached_tokens ?? 0,
+          });
+        }
+      }
+
+      if (!done && !finishReason) {
+        throw new Error("chat completions stream ended before [DONE]");
+      }
+      if (finishReason === "length") {
+        throw new Error("chat completions stopped early: length");
+      }
+      this._log({
+        phase: "end",
+        requestId,
+        durationMs: Date.now() - startedAt,
+        tokens: tokenCount,
+        finishReason,
+      });
+    } catch (e: any) {
+      this._log({
+        phase: "error",
+        requestId,
+        ...(e?.name === "AbortError"
+          ? { aborted: true }
+          : { message: e?.message || String(e) }),
+        durationMs: Date.now() - startedAt,
+      });
+      throw e;
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { collect } from "../testing/collect.js";
+import { settle } from "../testing/scheduler-driver.js";
+import { VirtualClock } from "../testing/virtual-clock.js";
+import { FakeLlmPort } from "./fake-llm-port.js";
+import { HttpStatusError } from "./http-error.js";
+import type { LlmMessage } from "./llm-port.js";
+
+const user = (content: string): LlmMessage[] => [{ role: "user", content }];
+
+describe("FakeLlmPort", () => {
+  test("prefers matching replies and otherwise plays in order", async () => {
+    const llm = new FakeLlmPort({
+      chunkSize: 2,
+      replies: [
+        { match: "weather", reply: "sunny", repeat: true },
+        { reply: "first" },
+        { reply: { n: 2 } },
+        { error: { message: "overloaded", status: 529 } },
+      ],
+    });
+
+    const reply = async (text: string) =>
+      (await collect(llm.generate(user(text)))).join("");
+
+    expect(await collect(llm.generate(user("hi")))).toEqual(["fi", "rs", "t"]);
+    expect(await reply("weather?")).toBe("sunny");
+    expect(await reply("hi")).toBe('{"n":2}');
+    const err = await reply("hi").catch((e) => e);
+    expect(err).toBeInstanceOf(HttpStatusError);
+    expect(err.status).toBe(529);
+    await expect(reply("hi")).rejects.toThrow("prompt #5");
+    expect(llm.remaining).toBe(0);
+  });
+
+  test("waits out latency on its clock and stops when aborted", async () => {
+    const clock = new VirtualClock();
+    const llm = new FakeLlmPort(
+      { latencyMs: 100, replies: [{ chunks: ["a", "b"] }] },
+      clock
+    );
+    const ac = new AbortController();
+    const seen: string[] = [];
+    const done = (async () => {
+      for await (const t of llm.generate(user("p"), { signal: ac.signal })) {
+        seen.push(t);
+      }
+    })().catch((e) => e);
+
+    await settle();
+    expect(seen).toEqual([]);
+    clock.advance(100);
+    await settle();
+    expect(seen).toEqual(["a"]);
+    ac.abort(new Error("stop"));
+    expect((await done).message).toBe("stop");
+    expect(clock.pending()).toBe(0);
+  });
+});
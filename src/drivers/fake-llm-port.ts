@@ -0,0 +1,157 @@
+// drivers/fake-llm-port.ts
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import { Clock, systemClock } from "../clock.js";
+import { HttpStatusError } from "./http-error.js";
+import {
+  GenerateOptions,
+  LlmMessage,
+  LlmPort,
+  transcript,
+} from "./llm-port.js";
+
+const FixtureReply = z
+  .object({
+    /** Regex source; the reply is only used for prompts it matches. */
+    match: z.string().optional(),
+    /** Reply text; objects are sent as their JSON. */
+    reply: z
+      .union([z.string(), z.record(z.string(), z.unknown())])
+      .optional(),
+    /** Exact chunks to stream instead of splitting `reply`. */
+    chunks: z.array(z.string()).optional(),
+    /** Fail the request instead; a status makes it an HTTP error. */
+    error: z
+      .object({ message: z.string(), status: z.number().int().optional() })
+      .optional(),
+    /** Keep the reply for later prompts instead of using it up. */
+    repeat: z.boolean().optional(),
+    latencyMs: z.number().min(0).optional(),
+    /** Token usage to report once the reply has streamed. */
+    usage: z
+      .object({
+        inputTokens: z.number().int().min(0),
+        outputTokens: z.number().int().min(0),
+        cachedTokens: z.number().int().min(0).default(0),
+      })
+      .optional(),
+  })
+  .refine((r) => r.reply !== undefined || r.chunks || r.error, {
+    message: "a reply needs `reply`, `chunks` or `error`",
+  });
+
+export const LlmFixture = z.object({
+  /** Model name usage is reported under, e.g. to price it. */
+  model: z.string().default("fake"),
+  /** Characters per streamed chunk; the whole reply at once by default. */
+  chunkSize: z.number().int().positive().optional(),
+  /** Delay before each chunk, unless a reply sets its own. */
+  latencyMs: z.number().min(0).default(0),
+  replies: z.array(FixtureReply),
+});
+export type LlmFixture = z.input<typeof LlmFixture>;
+type FixtureReply = z.infer<typeof FixtureReply>;
+
+export async function readLlmFixture(file: string): Promise<LlmFixture> {
+  return LlmFixture.parse(JSON.parse(await readFile(file, "utf8")));
+}
+
+/*
+  Plays scripted replies from a fixture instead of calling a model. Each
+  request is flattened with `transcript()` and gets the first unused reply
+  whose `match` accepts that text; failing that, the next unused reply
+  without a `match`, so plain fixtures play in order. Latency runs on
+  `clock`, so tests on a virtual clock stay exact.
+*/
+export class FakeLlmPort implements LlmPort {
+  /** Every request received, as the transcript text it was matched on. */
+  readonly prompts: string[] = [];
+  private readonly fixture: z.infer<typeof LlmFixture>;
+  private used = new Set<FixtureReply>();
+
+  constructor(fixture: LlmFixture, private clock: Clock = systemClock) {
+    this.fixture = LlmFixture.parse(fixture);
+  }
+
+  static async load(file: string, clock?: Clock): Promise<FakeLlmPort> {
+    return new FakeLlmPort(await readLlmFixture(file), clock);
+  }
+
+  /** Replies that were never used and are not `repeat`. */
+  get remaining(): number {
+    return this.fixture.replies.filter(
+      (r) => !r.repeat && !this.used.has(r)
+    ).length;
+  }
+
+  modelFor(): string {
+    return this.fixture.model;
+  }
+
+  async *generate(
+    messages: LlmMessage[],
+    opts?: GenerateOptions
+  ): AsyncIterable<string> {
+    const prompt = transcript(messages);
+    this.prompts.push(prompt);
+    opts?.onModel?.(this.fixture.model);
+    const reply = this.next(prompt);
+    const latency = reply.latencyMs ?? this.fixture.latencyMs;
+    if (reply.error) {
+      await this.sleep(latency, opts?.signal);
+      const { message, status } = reply.error;
+      throw status === undefined
+        ? new Error(message)
+        : new HttpStatusError(message, status);
+    }
+    for (const chunk of this.chunks(reply)) {
+      await this.sleep(latency, opts?.signal);
+      yield chunk;
+    }
+    if (reply.usage) {
+      opts?.onUsage?.({ model: this.fixture.model, ...reply.usage });
+    }
+  }
+
+  private next(prompt: string): FixtureReply {
+    const open = this.fixture.replies.filter((r) => !this.used.has(r));
+    const reply =
+      open.find((r) => r.match && new RegExp(r.match).test(prompt)) ??
+      open.find((r) => !r.match);
+    if (!reply) {
+      throw new Error(`fixture has no reply for prompt #${this.prompts.length}`);
+    }
+    if (!reply.repeat) this.used.add(reply);
+    return reply;
+  }
+
+  private chunks(reply: FixtureReply): string[] {
+    if (reply.chunks) return reply.chunks;
+    const text =
+      typeof reply.reply === "string"
+        ? reply.reply
+        : JSON.stringify(reply.reply);
+    const size = this.fixture.chunkSize ?? (text.length || 1);
+    const out: string[] = [];
+    for (let i = 0; i < text.length; i += size) {
+      out.push(text.slice(i, i + size));
+    }
+    return out;
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    if (ms <= 0) return Promise.resolve();
+    return new Promise((resolve, reject) => {
+      const timer = this.clock.setTimer(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        this.clock.clearTimer(timer);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
@@ -11,8 +11,9 @@ export class FsPort implements ToolPort {
       throw new Error("path escapes workspace");
     return full;
   }
-  async run(args: any) {
+  async run(args: any, opts?: { signal?: AbortSignal }) {
     try {
+      opts?.signal?.throwIfAborted();
       const { op, path, content } = args ?? {};
       if (op === "read")
         return { ok: true, data: await fs.readFile(this.safe(path), "utf8") };
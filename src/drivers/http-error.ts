@@ -0,0 +1,30 @@
+// drivers/http-error.ts
+
+/** Non-2xx response from a provider or tool endpoint. */
+export class HttpStatusError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    /** Server-requested wait before retrying (from `Retry-After`). */
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "HttpStatusError";
+  }
+}
+
+/**
+ * Parses a `Retry-After` header, which is either delta-seconds or an
+ * HTTP-date, into milliseconds from `now`.
+ */
+export function parseRetryAfter(
+  header: string | null | undefined,
+  now = Date.now()
+): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(header);
+  if (Number.isNaN(at)) return undefined;
+  return Math.max(0, at - now);
+}
@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { FakeSseServer } from "../testing/fake-sse-server.js";
+import { HttpPort } from "./http-port.js";
+
+describe("HttpPort", () => {
+  let server: FakeSseServer;
+  beforeEach(() => {
+    server = FakeSseServer.start();
+  });
+  afterEach(() => server.stop());
+
+  test("retries server errors only for idempotent methods", async () => {
+    for (let i = 0; i < 4; i++) server.reply({ status: 503, body: "down" });
+    const http = new HttpPort();
+    const call = (args: object) => http.run({ url: server.url, ...args });
+
+    expect((await call({})).retryable).toBe(true);
+    expect((await call({ method: "PUT" })).retryable).toBe(true);
+    expect((await call({ method: "POST" })).retryable).toBe(false);
+    expect((await call({ method: "POST", retry: true })).retryable).toBe(
+      true
+    );
+  });
+
+  test("retries a 429 for any method", async () => {
+    server.reply({ status: 429, headers: { "retry-after": "2" } });
+    const res = await new HttpPort().run({ url: server.url, method: "POST" });
+
+    expect(res).toMatchObject({ ok: false, retryable: true });
+    expect(res.retryAfterMs).toBe(2000);
+  });
+});
@@ -1,20 +1,47 @@
-import { ToolPort } from "./tools-port.js";
+import { parseRetryAfter } from "./http-error.js";
+import { ToolPort, ToolResult } from "./tools-port.js";
 
+// repeating these cannot cause a second side effect
+const IDEMPOTENT = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/*
+  Failures are marked retryable only where repeating the call is safe. A 429
+  was refused before anything happened; a 5xx or network error may have
+  reached the server, so those retry idempotent methods only. `retry` in the
+  args overrides that either way, e.g. for a POST the server deduplicates.
+*/
 export class HttpPort implements ToolPort {
   name = "http";
-  async run(args: any) {
+  async run(args: any, opts?: { signal?: AbortSignal }): Promise<ToolResult> {
+    const { method = "GET", retry } = args ?? {};
+    const repeatable: boolean =
+      retry ?? IDEMPOTENT.has(String(method).toUpperCase());
     try {
-      const { url, method = "GET", headers = {}, body } = args ?? {};
+      const { url, headers = {}, body } = args ?? {};
       if (!/^https?:\/\//.test(url)) return { ok: false, data: "invalid url" };
       const res = await fetch(url, {
         method,
         headers,
         body: body ? JSON.stringify(body) : null,
+        signal: opts?.signal ?? null,
       });
       const text = await res.text();
-      return { ok: res.ok, data: text };
+      if (res.ok) return { ok: true, data: text };
+      const retryAfterMs = parseRetryAfter(res.headers.get("retry-after"));
+      return {
+        ok: false,
+        data: text,
+        retryable:
+          res.status === 429 || (res.status >= 500 && repeatable),
+        ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+      };
     } catch (e: any) {
-      return { ok: false, data: String(e.message ?? e) };
+      // network failures are worth retrying; aborts are not
+      return {
+        ok: false,
+        data: String(e.message ?? e),
+        retryable: e?.name !== "AbortError" && repeatable,
+      };
     }
   }
 }
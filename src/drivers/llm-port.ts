@@ -0,0 +1,92 @@
+// drivers/llm-port.ts
+
+/*
+  One entry of a conversation with a model. Tool results answer the tool
+  calls a planner made inside its own replies, not provider-native calls,
+  so ports hand them to the model as user-side text (see `messageText`).
+*/
+export type LlmMessage =
+  | { role: "system" | "user" | "assistant"; content: string }
+  | { role: "tool"; tool: string; ok: boolean; content: string };
+
+/*
+  A JSON Schema the reply has to satisfy. Ports hand it to the provider's
+  native structured output (or a forced tool call) and yield the resulting
+  JSON document as text; ports without such support ignore it.
+*/
+export type LlmOutputSchema = {
+  /** Identifier the provider shows the model, e.g. as the tool name. */
+  name: string;
+  description?: string;
+  schema: Record<string, unknown>;
+};
+
+/** Token counts a provider reported for one request. */
+export type LlmUsage = {
+  model: string;
+  /** All prompt tokens, cached ones included. */
+  inputTokens: number;
+  outputTokens: number;
+  /** Prompt tokens served from the provider's cache. */
+  cachedTokens: number;
+};
+
+export type GenerateOptions = {
+  signal?: AbortSignal;
+  schema?: LlmOutputSchema;
+  /** What the request is for (e.g. `plan`, `repair`), for routing. */
+  purpose?: string;
+  /** false: neither read nor fill a response cache for this request. */
+  cache?: boolean;
+  /** Called once the provider has reported the request's usage. */
+  onUsage?: (usage: LlmUsage) => void;
+  /** Called with the model about to serve the request, per attempt. */
+  onModel?: (model: string) => void;
+};
+
+/** A streaming text model: yields the reply as it is generated. */
+export interface LlmPort {
+  generate(
+    messages: LlmMessage[],
+    opts?: GenerateOptions
+  ): AsyncIterable<string>;
+  /** The model a request will be sent to first, if known up front. */
+  modelFor?(opts?: GenerateOptions): string;
+}
+
+export type ChatTurn = { role: "user" | "assistant"; content: string };
+
+export function messageText(message: LlmMessage): string {
+  if (message.role !== "tool") return message.content;
+  const status = message.ok ? "ok" : "error";
+  return `TOOL(${message.tool}) -> ${status}\n${message.content}`;
+}
+
+/** System instructions joined into one string, and the turns after them. */
+export function splitSystem(messages: LlmMessage[]): {
+  system: string | undefined;
+  turns: ChatTurn[];
+} {
+  const system: string[] = [];
+  const turns: ChatTurn[] = [];
+  for (const m of messages) {
+    if (m.role === "system") system.push(m.content);
+    else {
+      turns.push({
+        role: m.role === "assistant" ? "assistant" : "user",
+        content: messageText(m),
+      });
+    }
+  }
+  return { system: system.length ? system.join("\n\n") : undefined, turns };
+}
+
+/** `ROLE: text` paragraphs, for logs, previews and text-only models. */
+export function transcript(messages: LlmMessage[]): string {
+  return messages
+    .map((m) => {
+      const role = m.role === "tool" ? "user" : m.role;
+      return `${role.toUpperCase()}: ${messageText(m)}`;
+    })
+    .join("\n\n");
+}
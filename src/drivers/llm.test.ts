@@ -0,0 +1,127 @@
+import { describe, expect, test } from "bun:test";
+import type { Effect } from "../effect.js";
+import { SchedulerDriver } from "../testing/scheduler-driver.js";
+import { HttpStatusError } from "./http-error.js";
+import { LlmAdapter } from "./llm.js";
+import type { LlmPort } from "./llm-port.js";
+
+const policy = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 100, jitter: 0 };
+
+function setup(llm: LlmPort) {
+  const driver = SchedulerDriver.create();
+  const seen: any[] = [];
+  const adapter = new LlmAdapter(llm, policy, driver.scheduler.clock);
+  const labels = () => seen.map((e) => e.type ?? e.kind);
+  const run = (eff: Effect<"LlmGenerate">) =>
+    driver.scheduler.enqueue({
+      task: {
+        id: "llm-1",
+        group: eff.target,
+        run: async (signal) => {
+          const ctx = {
+            sessionId: "s",
+            signal,
+            taskId: "llm-1",
+            emit: (e: unknown) => seen.push(e),
+          };
+          const out = eff.stream === false
+            ? await adapter.complete(eff, ctx).catch(() => [])
+            : await adapter.stream(eff, ctx);
+          seen.push(...out);
+        },
+      },
+      lane: "domain",
+      priority: "medium",
+    });
+  return { driver, run, seen, labels };
+}
+
+const generate: Effect<"LlmGenerate"> = {
+  kind: "LlmGenerate",
+  messages: [{ role: "user", content: "prompt" }],
+  target: "agent#1",
+};
+
+describe("LlmAdapter", () => {
+  test("retries a failed request after backoff on the scheduler clock", async () => {
+    let calls = 0;
+    const { driver, run, labels } = setup({
+      async *generate() {
+        if (++calls === 1) throw new HttpStatusError("overloaded", 503);
+        yield "hi";
+      },
+    });
+
+    run(generate);
+    await driver.step();
+    expect(labels()).toEqual(["llm-start", "retry"]);
+    expect(driver.clock.nextTimerAt()).toBe(100);
+
+    await driver.runUntilIdle();
+    expect(labels()).toEqual([
+      "llm-start",
+      "retry",
+      "TokenChunk",
+      "stream-token",
+      "stream-done",
+      "llm-end",
+      "LlmComplete",
+    ]);
+  });
+
+  test("does not retry once tokens have been streamed", async () => {
+    let calls = 0;
+    const { driver, run, labels } = setup({
+      async *generate() {
+        calls++;
+        yield "partial";
+        throw new HttpStatusError("overloaded", 503);
+      },
+    });
+
+    run(generate);
+    await driver.runUntilIdle();
+    expect(calls).toBe(1);
+    expect(labels()).toContain("LlmError");
+    expect(labels()).not.toContain("retry");
+  });
+
+  test("a canceled group reports LlmCanceled instead of an error", async () => {
+    const { driver, run, labels } = setup({
+      async *generate(_prompt, opts) {
+        yield "a";
+        await new Promise((_, reject) =>
+          opts?.signal?.addEventListener("abort", () =>
+            reject(opts.signal!.reason)
+          )
+        );
+      },
+    });
+
+    run(generate);
+    await driver.step();
+    driver.scheduler.cancelGroup("agent#1");
+    await driver.runUntilIdle();
+    expect(labels()).toContain("LlmCanceled");
+    expect(labels()).not.toContain("LlmError");
+  });
+
+  test("a non-streaming request returns the whole completion", async () => {
+    const { driver, run, seen, labels } = setup({
+      async *generate() {
+        yield "he";
+        yield "llo";
+      },
+    });
+
+    run({ ...generate, stream: false });
+    await driver.runUntilIdle();
+    expect(labels()).toEqual([
+      "llm-start",
+      "llm-end",
+      "TokenChunk",
+      "LlmComplete",
+    ]);
+    expect(seen[2].text).toBe("hello");
+  });
+});
@@ -1,133 +1,228 @@
+import { Clock, systemClock } from "../clock.js";
+import type { Effect, EffectContext } from "../effect.js";
 import { Event } from "../events.js";
-import { Scheduler } from "../scheduler.js";
-import { LlmPort } from "./openai-port.js";
+import { isRetryable, RetryInfo, RetryPolicy, withRetry } from "../retry.js";
+import { UsageMeter } from "../usage.js";
+import {
+  GenerateOptions,
+  LlmPort,
+  LlmUsage,
+  transcript,
+} from "./llm-port.js";
 
+/*
+  What one request reports back: the model serving it and its usage. Every
+  attempt that reports usage is charged to the meter, but only the last one
+  is attached to the request's events, as is the last model that served it.
+*/
+class RequestReport {
+  private usage: LlmUsage | undefined;
+  private costUsd: number | undefined;
+
+  constructor(private meter: UsageMeter, public model: string | undefined) {}
+
+  readonly onModel = (model: string) => {
+    this.model = model;
+  };
+
+  readonly onUsage = (usage: LlmUsage) => {
+    this.usage = usage;
+    this.costUsd = this.meter.record(usage);
+  };
+
+  /** Fields for `llm-start`. */
+  startFields() {
+    return this.model ? { model: this.model } : {};
+  }
+
+  /** Fields for `llm-end`. */
+  endFields() {
+    return {
+      ...this.startFields(),
+      ...(this.usage ? { tokens: this.usage.outputTokens } : {}),
+      ...this.completeFields(),
+    };
+  }
+
+  /** Fields for `LlmComplete`. */
+  completeFields() {
+    return {
+      ...(this.usage ? { usage: this.usage } : {}),
+      ...(this.costUsd !== undefined ? { costUsd: this.costUsd } : {}),
+    };
+  }
+}
+
+/*
+  Runs `LlmGenerate` effects against an LlmPort. Both entry points are effect
+  runners: the runtime schedules them and dispatches what they return, while
+  UI progress and streamed tokens go out through `ctx.emit` as they happen.
+  Over the spending cap, both throw BudgetExceededError before any request.
+*/
 export class LlmAdapter {
   constructor(
     private llm: LlmPort,
-    private scheduler: Scheduler,
-    private dispatch: (e: Event | any) => void
+    private retry?: RetryPolicy,
+    private clock: Clock = systemClock,
+    private meter = new UsageMeter()
   ) {}
 
-  run(prompt: string, target: string) {
-    const reqId = `llm-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  private request(eff: Effect<"LlmGenerate">, signal: AbortSignal) {
+    const opts: GenerateOptions = {
+      signal,
+      ...(eff.schema ? { schema: eff.schema } : {}),
+      ...(eff.purpose ? { purpose: eff.purpose } : {}),
+      ...(eff.cache === false ? { cache: false } : {}),
+    };
+    const report = new RequestReport(this.meter, this.llm.modelFor?.(opts));
+    opts.onModel = report.onModel;
+    opts.onUsage = report.onUsage;
+    return { opts, report };
+  }
+
+  private retryOptions(target: string, ctx: EffectContext) {
+    return {
+      signal: ctx.signal,
+      clock: this.clock,
+      onRetry: (info: RetryInfo) =>
+        ctx.emit({
+          kind: "retry",
+          target,
+          source: "llm",
+          requestId: ctx.taskId,
+          ...info,
+        }),
+    };
+  }
+
+  async stream(
+    eff: Effect<"LlmGenerate">,
+    ctx: EffectContext
+  ): Promise<Event[]> {
+    const { messages, target } = eff;
+    const { signal, emit } = ctx;
+    const reqId = eff.reqId ?? ctx.taskId;
     const started = Date.now();
+    const { opts, report } = this.request(eff, signal);
     let tokenCount = 0;
+    this.meter.checkBudget();
 
     // UI: signal model work started
-    this.dispatch({
+    emit({
       kind: "llm-start",
       target,
       requestId: reqId,
-      promptPreview: prompt.slice(0, 160),
-    } as any);
-
-    this.scheduler.enqueue({
-      task: {
-        id: reqId,
-        run: async () => {
-          try {
-            for await (const chunk of this.llm.generate(prompt)) {
-              tokenCount++;
-              this.dispatch({
-                type: "TokenChunk",
-                text: chunk,
-                target,
-                reqId,
-              } as Event);
-              this.dispatch({
-                kind: "stream-token",
-                target,
-                token: chunk,
-              });
+      promptPreview: transcript(messages.slice(-1)).slice(0, 160),
+      ...report.startFields(),
+    });
+    const end = () => {
+      emit({ kind: "stream-done", target });
+      emit({
+        kind: "llm-end",
+        target,
+        requestId: reqId,
+        durationMs: Date.now() - started,
+        ...report.endFields(),
+      });
+    };
+
+    // once tokens have reached the agent a retry would duplicate them
+    const policy = this.retry && {
+      ...this.retry,
+      retryable: (err: unknown) =>
+        tokenCount === 0 && (this.retry!.retryable ?? isRetryable)(err),
+    };
+    try {
+      await withRetry(
+        async () => {
+          for await (const chunk of this.llm.generate(messages, opts)) {
+            if (signal.aborted) break;
+            tokenCount++;
+            emit({ type: "TokenChunk", text: chunk, target, reqId });
+            // schema output is data for the caller to render, not text
+            if (!eff.schema) {
+              emit({ kind: "stream-token", target, token: chunk });
             }
-            this.dispatch({ kind: "stream-done", target });
-            this.dispatch({
-              type: "LlmComplete",
-              target,
-              reqId,
-            } as Event);
-            this.dispatch({
-              kind: "llm-end",
-              target,
-              requestId: reqId,
-              durationMs: Date.now() - started,
-              tokens: tokenCount,
-            });
-          } catch (err: any) {
-            const msg =
-              (err && (err.message || String(err))) || "unknown error";
-            this.dispatch({
-              type: "LlmError",
-              error: msg,
-              target,
-              reqId,
-            } as Event);
-            this.dispatch({ kind: "stream-done", target });
-            this.dispatch({
-              kind: "llm-end",
-              target,
-              requestId: reqId,
-              durationMs: Date.now() - started,
-              tokens: tokenCount,
-            });
           }
         },
-      },
-      lane: "domain",
-      priority: "medium",
-    });
+        policy,
+        this.retryOptions(target, ctx)
+      );
+      end();
+      if (signal.aborted) return [{ type: "LlmCanceled", target, reqId }];
+      return [
+        { type: "LlmComplete", target, reqId, ...report.completeFields() },
+      ];
+    } catch (err: any) {
+      end();
+      if (signal.aborted) return [{ type: "LlmCanceled", target, reqId }];
+      const msg = (err && (err.message || String(err))) || "unknown error";
+      return [{ type: "LlmError", error: msg, target, reqId }];
+    }
   }
 
-  async runOnce(prompt: string, target: string): Promise<string> {
-    const reqId = `llm-once-${Date.now()}-${Math.random()
-      .toString(36)
-      .slice(2, 8)}`;
+  /*
+    Non-streaming variant for the planner: the whole reply comes back as one
+    TokenChunk followed by LlmComplete. Failures and cancellation throw so the
+    caller awaiting the reply sees them.
+  */
+  async complete(
+    eff: Effect<"LlmGenerate">,
+    ctx: EffectContext
+  ): Promise<Event[]> {
+    const { messages, target } = eff;
+    const { signal, emit } = ctx;
+    const reqId = eff.reqId ?? ctx.taskId;
     const started = Date.now();
+    const { opts, report } = this.request(eff, signal);
+    this.meter.checkBudget();
 
-    this.dispatch({
+    emit({
       kind: "llm-start",
       target,
       requestId: reqId,
-      promptPreview: prompt.slice(0, 160),
-    } as any);
+      promptPreview: transcript(messages.slice(-1)).slice(0, 160),
+      ...report.startFields(),
+    });
 
     // gather chunks into a single string (non-streaming to the agent)
     let buf = "";
-    await new Promise<void>((resolve, reject) => {
-      this.scheduler.enqueue({
-        task: {
-          id: reqId,
-          run: async () => {
-            try {
-              for await (const chunk of this.llm.generate(prompt)) buf += chunk;
-              resolve();
-            } catch (e) {
-              reject(e);
-            }
-          },
+    try {
+      await withRetry(
+        async () => {
+          buf = "";
+          for await (const chunk of this.llm.generate(messages, opts))
+            buf += chunk;
         },
-        lane: "domain",
-        priority: "medium",
-      });
-    }).catch((e) => {
-      this.dispatch({
+        this.retry,
+        this.retryOptions(target, ctx)
+      );
+      signal.throwIfAborted();
+    } catch (e) {
+      emit({
         kind: "llm-end",
         target,
         requestId: reqId,
         durationMs: Date.now() - started,
-      } as any);
+        ...report.endFields(),
+      });
+      if (signal.aborted) {
+        emit({ type: "LlmCanceled", target, reqId });
+        throw signal.reason;
+      }
       throw e;
-    });
+    }
 
-    this.dispatch({
+    emit({
       kind: "llm-end",
       target,
       requestId: reqId,
       durationMs: Date.now() - started,
-      tokens: buf.length ? buf.split(/\s+/).length : 0, // rough fallback
-    } as any);
-
-    return buf;
+      ...report.endFields(),
+    });
+    return [
+      { type: "TokenChunk", text: buf, target, reqId },
+      { type: "LlmComplete", target, reqId, ...report.completeFields() },
+    ];
   }
 }
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Logger } from "../logger.js";
+import { collect } from "../testing/collect.js";
+import { FakeSseServer } from "../testing/fake-sse-server.js";
+import type { LlmUsage } from "./llm-port.js";
+import { OpenAIResponsesPort } from "./openai-port.js";
+
+const quiet = new Logger("");
+
+describe("OpenAIResponsesPort", () => {
+  let server: FakeSseServer;
+  beforeEach(() => {
+    server = FakeSseServer.start();
+  });
+  afterEach(() => server.stop());
+
+  test("streams output text and reports usage from response.completed", async () => {
+    server.reply({
+      events: [
+        { data: { type: "response.created" } },
+        { data: { type: "response.output_text.delta", delta: "Hi" } },
+        {
+          data: {
+            type: "response.completed",
+            response: {
+              model: "gpt-5-mini-2025-08-07",
+              usage: {
+                input_tokens: 120,
+                input_tokens_details: { cached_tokens: 100 },
+                output_tokens: 7,
+              },
+            },
+          },
+        },
+        { data: "[DONE]" },
+      ],
+    });
+    const port = new OpenAIResponsesPort("k", server.url, undefined, quiet);
+    const usage: LlmUsage[] = [];
+
+    const out = await collect(
+      port.generate(
+        [
+          { role: "system", content: "be brief" },
+          { role: "user", content: "hello" },
+        ],
+        { onUsage: (u) => usage.push(u) }
+      )
+    );
+
+    expect(out).toEqual(["Hi"]);
+    expect(usage).toEqual([
+      {
+        model: "gpt-5-mini-2025-08-07",
+        inputTokens: 120,
+        outputTokens: 7,
+        cachedTokens: 100,
+      },
+    ]);
+    expect(server.requests[0]!.body).toMatchObject({
+      instructions: "be brief",
+      input: [{ role: "user", content: "hello" }],
+    });
+  });
+});
@@ -1,12 +1,13 @@
 // drivers/openai-port.ts
 import { Logger } from "../logger.js";
-
-export interface LlmPort {
-  generate(
-    prompt: string,
-    opts?: { signal?: AbortSignal }
-  ): AsyncIterable<string>;
-}
+import { HttpStatusError, parseRetryAfter } from "./http-error.js";
+import {
+  GenerateOptions,
+  LlmMessage,
+  LlmPort,
+  splitSystem,
+  transcript,
+} from "./llm-port.js";
 
 // drivers/openai-port.ts
 export class OpenAIResponsesPort implements LlmPort {
@@ -29,9 +30,13 @@ export class OpenAIResponsesPort implements LlmPort {
     }
   }
 
+  modelFor(): string {
+    return this.model;
+  }
+
   async *generate(
-    prompt: string,
-    opts?: { signal?: AbortSignal }
+    messages: LlmMessage[],
+    opts?: GenerateOptions
   ): AsyncIterable<string> {
     const startedAt = Date.now();
     const requestId =
@@ -43,9 +48,11 @@ export class OpenAIResponsesPort implements LlmPort {
       phase: "start",
       requestId,
       model: this.model,
-      promptPreview: prompt.slice(0, 120),
+      promptPreview: transcript(messages.slice(-1)).slice(0, 120),
     });
+    opts?.onModel?.(this.model);
 
+    const { system, turns } = splitSystem(messages);
     let tokenCount = 0;
     try {
       const res = await fetch(`${this.baseUrl}/responses`, {
@@ -57,17 +64,31 @@ export class OpenAIResponsesPort implements LlmPort {
         },
         body: JSON.stringify({
           model: this.model,
-          // simple string input works with Responses API
-          input: prompt,
+          ...(system && { instructions: system }),
+          input: turns,
           stream: true,
+          ...(opts?.schema && {
+            text: {
+              format: {
+                type: "json_schema",
+                name: opts.schema.name,
+                description: opts.schema.description,
+                schema: opts.schema.schema,
+                // strict mode rejects optional properties
+                strict: false,
+              },
+            },
+          }),
         }),
         signal: opts?.signal ?? null,
       });
 
       if (!res.ok || !res.body) {
         const detail = await res.text().catch(() => "");
-        const err = new Error(
-          `OpenAI HTTP ${res.status}${detail ? `: ${detail}` : ""}`
+        const err = new HttpStatusError(
+          `OpenAI HTTP ${res.status}${detail ? `: ${detail}` : ""}`,
+          res.status,
+          parseRetryAfter(res.headers.get("retry-after"))
         );
         this._log({ phase: "error", requestId, message: err.message });
         throw err;
@@ -126,6 +147,16 @@ export class OpenAIResponsesPort implements LlmPort {
               this._log({ phase: "error", requestId, message: errMsg });
               throw new Error(errMsg);
             }
+            if (evt?.type === "response.completed" && evt.response?.usage) {
+              const u = evt.response.usage;
+              opts?.onUsage?.({
+                model: evt.response.model ?? this.model,
+                inputTokens: u.input_tokens ?? 0,
+                outputTokens: u.output_tokens ?? 0,
+                cachedTokens: u.input_tokens_details?.cached_tokens ?? 0,
+              });
+              continue;
+            }
 
             // ----- try to extract text deltas -----
             // 1) canonical: response.output_text.delta
@@ -152,14 +183,6 @@ export class OpenAIResponsesPort implements LlmPort {
               yield evt.output_text[0];
               continue;
             }
-            // 4) chat-compat fallback
-            const compat = evt?.choices?.[0]?.delta?.content;
-            if (typeof compat === "string" && compat) {
-              tokenCount++;
-              yield compat;
-              continue;
-            }
-
             // otherwise, ignore lifecycle frames like response.created/in_progress
             // console.debug("[openai-port] unparsed frame:", evt);
           }
@@ -0,0 +1,135 @@
+// drivers/providers.ts
+import { Logger } from "../logger.js";
+import { AnthropicMessagesPort } from "./anthropic-port.js";
+import { ChatCompletionsPort } from "./chat-completions-port.js";
+import type { LlmPort } from "./llm-port.js";
+import { OpenAIResponsesPort } from "./openai-port.js";
+import { type LlmFailure, RoutingLlmPort } from "./routing-port.js";
+
+/*
+  - openai: the OpenAI Responses API
+  - anthropic: the Anthropic Messages API
+  - openai-chat: any OpenAI-compatible `/chat/completions` server, e.g. a
+    local llama.cpp, Ollama or vLLM; the API key is optional
+*/
+export type LlmProvider = "openai" | "anthropic" | "openai-chat";
+
+/** Which model API to talk to; unset fields use the provider's defaults. */
+export type LlmProviderConfig = {
+  provider: LlmProvider;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+};
+
+/** A primary model, the ones to fall back to, and per-purpose chains. */
+export type LlmRoutingConfig = {
+  chain: LlmProviderConfig[];
+  /** Chains for requests of one purpose, e.g. a cheaper model for `repair`. */
+  routes?: Record<string, LlmProviderConfig[]>;
+  fallbackOn?: LlmFailure[];
+};
+
+type Env = Record<string, string | undefined>;
+
+const API_KEY_ENV: Record<LlmProvider, string> = {
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  // any server may sit behind this one, so it gets no vendor's key
+  "openai-chat": "THOM_LLM_API_KEY",
+};
+
+/*
+  THOM_LLM_PROVIDER picks the provider; without it, whichever of
+  OPENAI_API_KEY / ANTHROPIC_API_KEY is set does (OpenAI if both are).
+  THOM_LLM_MODEL and THOM_LLM_BASE_URL override the provider's defaults.
+  "openai-chat" servers get THOM_LLM_API_KEY, if set, and no key otherwise.
+*/
+export function llmConfigFromEnv(env: Env = process.env): LlmProviderConfig {
+  const named = env.THOM_LLM_PROVIDER;
+  if (named && !(named in API_KEY_ENV)) {
+    throw new Error(`unknown THOM_LLM_PROVIDER: ${named}`);
+  }
+  const provider =
+    (named as LlmProvider | undefined) ??
+    (!env.OPENAI_API_KEY && env.ANTHROPIC_API_KEY ? "anthropic" : "openai");
+  const apiKey = env[API_KEY_ENV[provider]];
+  return {
+    provider,
+    ...(apiKey && { apiKey }),
+    ...(env.THOM_LLM_MODEL && { model: env.THOM_LLM_MODEL }),
+    ...(env.THOM_LLM_BASE_URL && { baseUrl: env.THOM_LLM_BASE_URL }),
+  };
+}
+
+/*
+  THOM_LLM_FALLBACKS lists `provider[:model]` entries to fall back to after
+  the primary, comma-separated. THOM_LLM_REPAIR names the one that planner
+  repair calls try first. API keys come from the same variables as above.
+*/
+export function llmRoutingFromEnv(env: Env = process.env): LlmRoutingConfig {
+  const fallbacks = (env.THOM_LLM_FALLBACKS ?? "")
+    .split(",")
+    .filter((spec) => spec.trim())
+    .map((spec) => modelSpec(spec, env));
+  const chain = [llmConfigFromEnv(env), ...fallbacks];
+  const repair = env.THOM_LLM_REPAIR;
+  return {
+    chain,
+    ...(repair && { routes: { repair: [modelSpec(repair, env), ...chain] } }),
+  };
+}
+
+// "anthropic:claude-haiku-4-5"; model names may contain colons themselves
+function modelSpec(spec: string, env: Env): LlmProviderConfig {
+  const [name, ...model] = spec.trim().split(":");
+  if (!name || !(name in API_KEY_ENV)) {
+    throw new Error(`unknown provider in model spec: ${spec}`);
+  }
+  const provider = name as LlmProvider;
+  const apiKey = env[API_KEY_ENV[provider]];
+  return {
+    provider,
+    ...(apiKey && { apiKey }),
+    ...(model.length && { model: model.join(":") }),
+  };
+}
+
+/** One provider's port, or a routing port over several. */
+export function createLlmPort(
+  config: LlmProviderConfig | LlmRoutingConfig,
+  logger?: Logger
+): LlmPort {
+  if ("chain" in config) return createRoutingPort(config, logger);
+  const { provider, apiKey, baseUrl, model } = config;
+  if (provider === "openai-chat") {
+    return new ChatCompletionsPort(baseUrl, model, apiKey, logger);
+  }
+  if (!apiKey) throw new Error(`${API_KEY_ENV[provider]} is not set`);
+  switch (provider) {
+    case "openai":
+      return new OpenAIResponsesPort(apiKey, baseUrl, model, logger);
+    case "anthropic":
+      return new AnthropicMessagesPort(apiKey, baseUrl, model, logger);
+  }
+}
+
+function createRoutingPort(
+  config: LlmRoutingConfig,
+  logger?: Logger
+): LlmPort {
+  const create = (chain: LlmProviderConfig[]) =>
+    chain.map((c) => createLlmPort(c, logger));
+  const routes = Object.entries(config.routes ?? {});
+  // a lone provider needs no router around it
+  if (config.chain.length === 1 && !routes.length) {
+    return createLlmPort(config.chain[0]!, logger);
+  }
+  return new RoutingLlmPort(
+    [
+      ...routes.map(([purpose, chain]) => ({ purpose, chain: create(chain) })),
+      { chain: create(config.chain) },
+    ],
+    config.fallbackOn ? { fallbackOn: config.fallbackOn } : {}
+  );
+}
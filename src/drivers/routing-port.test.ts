@@ -0,0 +1,138 @@
+import { describe, expect, test } from "bun:test";
+import { collect } from "../testing/collect.js";
+import { FakeLlmPort } from "./fake-llm-port.js";
+import { HttpStatusError } from "./http-error.js";
+import type { LlmMessage } from "./llm-port.js";
+import { llmRoutingFromEnv } from "./providers.js";
+import { classifyLlmError, RoutingLlmPort } from "./routing-port.js";
+
+const hi: LlmMessage[] = [{ role: "user", content: "hi" }];
+
+const failing = (message: string, status?: number) =>
+  new FakeLlmPort({
+    model: `failing-${status ?? "x"}`,
+    replies: [
+      { error: { message, ...(status && { status }) }, repeat: true },
+    ],
+  });
+
+describe("classifyLlmError", () => {
+  test("sorts provider failures into fallback reasons", () => {
+    expect(classifyLlmError(new HttpStatusError("slow down", 429))).toBe(
+      "rate-limit"
+    );
+    expect(classifyLlmError(new HttpStatusError("gateway", 504))).toBe(
+      "timeout"
+    );
+    expect(classifyLlmError(new HttpStatusError("overloaded", 529))).toBe(
+      "unavailable"
+    );
+    expect(
+      classifyLlmError(new HttpStatusError("prompt is too long", 400))
+    ).toBe("context-length");
+    expect(classifyLlmError(new DOMException("t", "TimeoutError"))).toBe(
+      "timeout"
+    );
+    expect(classifyLlmError(new HttpStatusError("bad key", 401))).toBe(
+      undefined
+    );
+    expect(classifyLlmError(new Error("bad json"))).toBe(undefined);
+  });
+});
+
+describe("RoutingLlmPort", () => {
+  test("falls back along the chain and reports the serving model", async () => {
+    const backup = new FakeLlmPort({
+      model: "backup",
+      replies: [{ reply: "ok" }],
+    });
+    const port = new RoutingLlmPort([
+      {
+        chain: [
+          failing("rate limited", 429),
+          failing("maximum context length exceeded", 400),
+          backup,
+        ],
+      },
+    ]);
+    const served: string[] = [];
+
+    const out = await collect(
+      port.generate(hi, { onModel: (m) => served.push(m) })
+    );
+    expect(out).toEqual(["ok"]);
+    expect(served).toEqual(["failing-429", "failing-400", "backup"]);
+    expect(port.modelFor()).toBe("failing-429");
+  });
+
+  test("keeps failures it should not retry or that come mid-reply", async () => {
+    const backup = new FakeLlmPort({ replies: [{ reply: "ok" }] });
+    const auth = new RoutingLlmPort([
+      { chain: [failing("bad key", 401), backup] },
+    ]);
+    await expect(collect(auth.generate(hi))).rejects.toThrow("bad key");
+
+    const partial = {
+      async *generate() {
+        yield "half";
+        throw new HttpStatusError("dropped", 503);
+      },
+    };
+    const port = new RoutingLlmPort([{ chain: [partial, backup] }]);
+    await expect(collect(port.generate(hi))).rejects.toThrow("dropped");
+
+    const limited = new RoutingLlmPort(
+      [{ chain: [failing("slow", 429), backup] }],
+      { fallbackOn: ["timeout"] }
+    );
+    await expect(collect(limited.generate(hi))).rejects.toThrow("slow");
+    expect(backup.remaining).toBe(1);
+  });
+
+  test("routes requests by purpose", async () => {
+    const main = new FakeLlmPort({ model: "big", replies: [{ reply: "a" }] });
+    const cheap = new FakeLlmPort({
+      model: "small",
+      replies: [{ reply: "b" }],
+    });
+    const port = new RoutingLlmPort([
+      { purpose: "repair", chain: [cheap] },
+      { chain: [main] },
+    ]);
+
+    expect(port.modelFor({ purpose: "repair" })).toBe("small");
+    expect(await collect(port.generate(hi, { purpose: "repair" }))).toEqual([
+      "b",
+    ]);
+    expect(await collect(port.generate(hi, { purpose: "plan" }))).toEqual([
+      "a",
+    ]);
+    expect(() => new RoutingLlmPort([{ purpose: "repair", chain: [main] }]))
+      .toThrow("default route");
+  });
+});
+
+describe("llmRoutingFromEnv", () => {
+  test("reads fallbacks and a repair model", () => {
+    const config = llmRoutingFromEnv({
+      THOM_LLM_PROVIDER: "anthropic",
+      ANTHROPIC_API_KEY: "a",
+      THOM_LLM_FALLBACKS: "openai-chat:qwen3:8b, openai",
+      THOM_LLM_REPAIR: "anthropic:claude-haiku-4-5",
+    });
+
+    expect(config.chain).toEqual([
+      { provider: "anthropic", apiKey: "a" },
+      { provider: "openai-chat", model: "qwen3:8b" },
+      { provider: "openai" },
+    ]);
+    expect(config.routes?.repair?.[0]).toEqual({
+      provider: "anthropic",
+      apiKey: "a",
+      model: "claude-haiku-4-5",
+    });
+    expect(() =>
+      llmRoutingFromEnv({ THOM_LLM_FALLBACKS: "nope:model" })
+    ).toThrow("unknown provider");
+  });
+});
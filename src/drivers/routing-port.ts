@@ -0,0 +1,115 @@
+// drivers/routing-port.ts
+import { HttpStatusError } from "./http-error.js";
+import type { GenerateOptions, LlmMessage, LlmPort } from "./llm-port.js";
+
+/*
+  Failures worth retrying on another model:
+  - rate-limit: the provider refused for quota (429)
+  - context-length: the prompt does not fit this model's window
+  - timeout: the request or the provider's upstream timed out
+  - unavailable: 5xx, overloaded, or the server could not be reached
+*/
+export type LlmFailure =
+  | "rate-limit"
+  | "context-length"
+  | "timeout"
+  | "unavailable";
+
+const CONTEXT_LENGTH =
+  /context[_ ]length|context window|maximum context|prompt is too long|too many tokens/i;
+
+export function classifyLlmError(err: unknown): LlmFailure | undefined {
+  const e = err as any;
+  if (!e) return undefined;
+  if (e.name === "TimeoutError") return "timeout";
+  if (CONTEXT_LENGTH.test(String(e.message ?? ""))) return "context-length";
+  if (e instanceof HttpStatusError) {
+    if (e.status === 429) return "rate-limit";
+    if (e.status === 408 || e.status === 504) return "timeout";
+    if (e.status === 413) return "context-length";
+    if (e.status >= 500) return "unavailable";
+    return undefined;
+  }
+  // fetch rejects with a TypeError when the server cannot be reached
+  if (e instanceof TypeError) return "unavailable";
+  return undefined;
+}
+
+export type LlmRoute = {
+  /** Requests with this `purpose` take the route; unset matches all. */
+  purpose?: string;
+  /** Ports to try in order; each later one is a fallback. */
+  chain: LlmPort[];
+};
+
+export type RoutingOptions = {
+  /** Failures that move on to the next port in the chain. */
+  fallbackOn?: LlmFailure[];
+};
+
+const ALL_FAILURES: LlmFailure[] = [
+  "rate-limit",
+  "context-length",
+  "timeout",
+  "unavailable",
+];
+
+/*
+  Sends each request down the first route whose purpose matches and falls
+  back along its chain on the configured failures. Once a port has yielded
+  text its failure is final, since the caller has already seen the output.
+*/
+export class RoutingLlmPort implements LlmPort {
+  private readonly fallbackOn: Set<LlmFailure>;
+
+  constructor(private routes: LlmRoute[], options: RoutingOptions = {}) {
+    if (routes.some((r) => !r.chain.length)) {
+      throw new Error("every route needs at least one port");
+    }
+    if (!routes.some((r) => r.purpose === undefined)) {
+      throw new Error("routing needs a default route without a purpose");
+    }
+    this.fallbackOn = new Set(options.fallbackOn ?? ALL_FAILURES);
+  }
+
+  modelFor(opts?: GenerateOptions): string {
+    return this.chainFor(opts)[0]!.modelFor?.(opts) ?? "unknown";
+  }
+
+  async *generate(
+    messages: LlmMessage[],
+    opts?: GenerateOptions
+  ): AsyncIterable<string> {
+    const chain = this.chainFor(opts);
+    for (let i = 0; i < chain.length; i++) {
+      let yielded = false;
+      try {
+        for await (const chunk of chain[i]!.generate(messages, opts)) {
+          yielded = true;
+          yield chunk;
+        }
+        return;
+      } catch (err) {
+        const failure = classifyLlmError(err);
+        const last = i === chain.length - 1;
+        if (
+          last ||
+          yielded ||
+          opts?.signal?.aborted ||
+          !failure ||
+          !this.fallbackOn.has(failure)
+        ) {
+          throw err;
+        }
+      }
+    }
+  }
+
+  private chainFor(opts?: GenerateOptions): LlmPort[] {
+    const route =
+      this.routes.find(
+        (r) => r.purpose !== undefined && r.purpose === opts?.purpose
+      ) ?? this.routes.find((r) => r.purpose === undefined)!;
+    return route.chain;
+  }
+}
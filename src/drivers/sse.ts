@@ -15,3 +15,28 @@ export async function* sseToAsyncIterable(stream: ReadableStream<Uint8Array>) {
   }
   if (buf) yield buf; // tail (likely just "[DONE]" or trailing whitespace)
 }
+
+export type SseEvent = { event?: string; data: string };
+
+/** Splits one SSE frame into its `event:` name and joined `data:` lines. */
+export function parseSseFrame(frame: string): SseEvent | null {
+  let event: string | undefined;
+  const data: string[] = [];
+  for (const raw of frame.split(/\r?\n/)) {
+    const line = raw.trimEnd();
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+  }
+  if (!data.length) return null;
+  return { ...(event ? { event } : {}), data: data.join("\n") };
+}
+
+/** Parsed events of an SSE response body; frames without data are skipped. */
+export async function* sseEvents(
+  stream: ReadableStream<Uint8Array>
+): AsyncIterable<SseEvent> {
+  for await (const frame of sseToAsyncIterable(stream)) {
+    const evt = parseSseFrame(frame);
+    if (evt) yield evt;
+  }
+}
@@ -1,4 +1,12 @@
+export type ToolResult = {
+  ok: boolean;
+  data: string;
+  /** Set on failures that may succeed if the call is repeated. */
+  retryable?: boolean;
+  retryAfterMs?: number;
+};
+
 export interface ToolPort {
   name: string;
-  run(args: unknown): Promise<{ ok: boolean; data: string }>;
+  run(args: unknown, opts?: { signal?: AbortSignal }): Promise<ToolResult>;
 }
@@ -1,28 +1,76 @@
+import type { LlmMessage, LlmOutputSchema } from "./drivers/llm-port.js";
 import type { Event } from "./events.js";
+import type { Lane, Prio, TaskSchedule } from "./scheduler.js";
+import type { AgentUiEvent } from "./ui-messages.js";
 export type Tools = "fs" | "http";
 
-export type Effect =
-  | { kind: "LlmGenerate"; prompt: string; target: string; reqId?: string }
-  | {
-      kind: "ToolCall";
-      tool: Tools;
-      args: unknown;
-      target: string;
-      reqId?: string;
-    };
+/**
+ * Payload of every effect kind, keyed by `kind`. New kinds are added from
+ * outside this file through declaration merging:
+ *
+ *   declare module "./effect.js" {
+ *     interface EffectMap {
+ *       Timer: { target: string; ms: number };
+ *     }
+ *   }
+ *
+ * Every payload needs a `target`: the actor the effect's events belong to.
+ * A `schedule` field, if present, is honored when the effect is enqueued.
+ */
+export interface EffectMap {
+  LlmGenerate: {
+    messages: LlmMessage[];
+    target: string;
+    reqId?: string;
+    /** false: collect the reply and return it instead of streaming tokens. */
+    stream?: boolean;
+    /** Constrain the reply to this JSON Schema where the provider can. */
+    schema?: LlmOutputSchema;
+    /** What the request is for, e.g. `repair`; ports may route on it. */
+    purpose?: string;
+    /** false: always ask the model, even with a response cache set up. */
+    cache?: boolean;
+  };
+  ToolCall: {
+    tool: Tools;
+    args: unknown;
+    target: string;
+    reqId?: string;
+    /** Run later or repeatedly, e.g. poll a URL every 5 minutes. */
+    schedule?: TaskSchedule;
+  };
+}
+
+export type EffectKind = keyof EffectMap;
+
+export type Effect<K extends EffectKind = EffectKind> = {
+  [P in K]: { kind: P } & EffectMap[P];
+}[K];
 
-export type EffectRunner = (
-  e: Effect,
-  a: {
-    sessionId: string;
-    signal: AbortSignal;
-  }
+export type EffectContext = {
+  sessionId: string;
+  signal: AbortSignal;
+  /** Scheduler task id running this effect; doubles as a request id. */
+  taskId: string;
+  /** Publishes intermediate events (e.g. streamed tokens) while running. */
+  emit: (evt: Event | AgentUiEvent) => void;
+};
+
+export type EffectRunner<K extends EffectKind = EffectKind> = (
+  e: Effect<K>,
+  a: EffectContext
 ) => Promise<Event | Event[]>;
 
+/** Where and how an effect kind's scheduler task runs. */
+export type EffectRunOptions<K extends EffectKind = EffectKind> = {
+  lane?: Lane;
+  priority?: Prio;
+  timeoutMs?: number;
+  /** Task id for one effect; defaults to `<kind>-<timestamp>-<random>`. */
+  taskId?: (e: Effect<K>) => string;
+};
+
 // Registry the scheduler/engine can call:
 export interface EffectRegistry {
-  run(
-    effect: Effect,
-    args: { sessionId: string; signal: AbortSignal }
-  ): Promise<Event | Event[]>;
+  run(effect: Effect, args: EffectContext): Promise<Event | Event[]>;
 }
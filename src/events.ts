@@ -1,7 +1,16 @@
+import type { LlmUsage } from "./drivers/llm-port.js";
+
 export type Event =
   | { type: "START"; sessionId: string }
   | { type: "TokenChunk"; text: string; target: string; reqId: string }
-  | { type: "LlmComplete"; target: string; reqId: string }
+  | {
+      type: "LlmComplete";
+      target: string;
+      reqId: string;
+      /** As reported by the provider, with its cost if the model is priced. */
+      usage?: LlmUsage;
+      costUsd?: number;
+    }
   | { type: "LlmCanceled"; target: string; reqId: string }
   | { type: "LlmError"; error: string; target: string; reqId: string }
   | { type: "UserInput"; text: string; target: string; reqId: string }
@@ -12,4 +21,14 @@ export type Event =
       reqId?: string;
       ok: boolean;
       data: string;
-    };
+    }
+  | {
+      type: "Message";
+      target: string;
+      from: string;
+      msgId: string;
+      body: unknown;
+      /** Set on replies: the `msgId` of the message being answered. */
+      inReplyTo?: string;
+    }
+  | { type: "Published"; topic: string; from: string; body: unknown };
@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import type { Event } from "./events.js";
+import { Mailbox, MailboxOptions } from "./mailbox.js";
+import { deferred, settle } from "./testing/scheduler-driver.js";
+
+const input = (text: string): Event => ({
+  type: "UserInput",
+  text,
+  target: "a#1",
+  reqId: text,
+});
+
+/** A mailbox whose handler blocks on the first event until released. */
+function blocked(options: MailboxOptions) {
+  const handled: string[] = [];
+  const overflowed: string[] = [];
+  const gate = deferred();
+  const box = new Mailbox(
+    async (evt) => {
+      handled.push((evt as { text: string }).text);
+      if (handled.length === 1) await gate.promise;
+    },
+    (evt) => overflowed.push((evt as { text: string }).text),
+    options
+  );
+  return { box, handled, overflowed, release: gate.resolve };
+}
+
+describe("Mailbox", () => {
+  test("delivers one event at a time, in order", async () => {
+    const { box, handled, release } = blocked({});
+    box.push(input("a"));
+    box.push(input("b"));
+    box.push(input("c"));
+    expect(handled).toEqual(["a"]);
+    expect(box.snapshot()).toMatchObject({ depth: 2, maxDepth: 2 });
+
+    release();
+    await settle();
+    expect(handled).toEqual(["a", "b", "c"]);
+    expect(box.snapshot()).toEqual({
+      depth: 0,
+      maxDepth: 2,
+      processed: 3,
+      overflowed: 0,
+    });
+  });
+
+  test("reject refuses events past the bound", async () => {
+    const { box, handled, overflowed, release } = blocked({ capacity: 1 });
+    for (const text of ["a", "b", "c"]) box.push(input(text));
+    release();
+    await settle();
+    expect(handled).toEqual(["a", "b"]);
+    expect(overflowed).toEqual(["c"]);
+  });
+
+  test("drop makes room by discarding the oldest waiting event", async () => {
+    const { box, handled, overflowed, release } = blocked({
+      capacity: 1,
+      overflow: "drop",
+    });
+    for (const text of ["a", "b", "c"]) box.push(input(text));
+    release();
+    await settle();
+    expect(handled).toEqual(["a", "c"]);
+    expect(overflowed).toEqual(["b"]);
+  });
+
+  test("coalesce replaces a waiting event with the same key", async () => {
+    const { box, handled, overflowed, release } = blocked({
+      capacity: 2,
+      overflow: "coalesce",
+      coalesceKey: (evt) =>
+        evt.type === "UserInput" ? evt.text[0] : undefined,
+    });
+    for (const text of ["a", "x1", "y", "x2", "z"]) box.push(input(text));
+    release();
+    await settle();
+    expect(handled).toEqual(["a", "y", "x2"]);
+    expect(overflowed).toEqual(["x1", "z"]);
+    expect(box.snapshot().overflowed).toBe(2);
+  });
+});
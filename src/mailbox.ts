@@ -0,0 +1,121 @@
+// mailbox.ts
+
+import { Event } from "./events.js";
+
+/*
+  What a full mailbox does with one more event:
+  - drop: discard the oldest queued event to make room
+  - reject: refuse the incoming event
+  - coalesce: replace a queued event with the same coalesce key, else reject
+*/
+export type OverflowPolicy = "drop" | "reject" | "coalesce";
+
+export type MailboxOptions = {
+  /** Events that may wait behind the one being handled. */
+  capacity?: number;
+  overflow?: OverflowPolicy;
+  /** Events with equal keys may replace each other; undefined never does. */
+  coalesceKey?: (evt: Event) => string | undefined;
+};
+
+export type MailboxSnapshot = {
+  /** Events waiting to be handled. */
+  depth: number;
+  /** Highest depth seen so far. */
+  maxDepth: number;
+  /** Events handed to the actor. */
+  processed: number;
+  /** Events dropped, refused or replaced because the mailbox was full. */
+  overflowed: number;
+};
+
+// coalesce repeated events of one type from one sender by default
+const byTypeAndSender = (evt: Event) =>
+  `${evt.type}:${"from" in evt ? evt.from : ""}`;
+
+/*
+  Hands events to an actor one at a time: the next is delivered only after
+  the previous one's handler, including any promise it returned, has
+  settled. An idle mailbox delivers synchronously.
+*/
+export class Mailbox {
+  private queue: Event[] = [];
+  private busy = false;
+  private closed = false;
+  private maxDepth = 0;
+  private processed = 0;
+  private overflowed = 0;
+  private readonly capacity: number;
+  private readonly overflow: OverflowPolicy;
+  private readonly coalesceKey: (evt: Event) => string | undefined;
+
+  constructor(
+    private handle: (evt: Event) => Promise<void> | void,
+    private onOverflow: (evt: Event) => void,
+    options: MailboxOptions = {}
+  ) {
+    this.capacity = options.capacity ?? 1000;
+    this.overflow = options.overflow ?? "reject";
+    this.coalesceKey = options.coalesceKey ?? byTypeAndSender;
+  }
+
+  push(evt: Event): void {
+    if (this.closed) return this.onOverflow(evt);
+    if (this.queue.length >= this.capacity && !this.makeRoom(evt)) {
+      this.overflowed++;
+      this.onOverflow(evt);
+      return;
+    }
+    this.queue.push(evt);
+    this.maxDepth = Math.max(this.maxDepth, this.queue.length);
+    if (!this.busy) void this.drain();
+  }
+
+  /** Stops delivery; returns the events that were still waiting. */
+  close(): Event[] {
+    this.closed = true;
+    return this.queue.splice(0);
+  }
+
+  snapshot(): MailboxSnapshot {
+    return {
+      depth: this.queue.length,
+      maxDepth: this.maxDepth,
+      processed: this.processed,
+      overflowed: this.overflowed,
+    };
+  }
+
+  // false: the incoming event has to be refused
+  private makeRoom(evt: Event): boolean {
+    if (this.overflow === "drop") {
+      this.overflowed++;
+      this.onOverflow(this.queue.shift()!);
+      return true;
+    }
+    if (this.overflow === "coalesce") {
+      const key = this.coalesceKey(evt);
+      const i =
+        key === undefined
+          ? -1
+          : this.queue.findIndex((queued) => this.coalesceKey(queued) === key);
+      if (i >= 0) {
+        this.overflowed++;
+        this.onOverflow(this.queue.splice(i, 1)[0]!);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async drain() {
+    this.busy = true;
+    while (this.queue.length && !this.closed) {
+      const evt = this.queue.shift()!;
+      this.processed++;
+      const done = this.handle(evt);
+      if (done) await done;
+    }
+    this.busy = false;
+  }
+}
@@ -0,0 +1,57 @@
+// metrics.ts
+
+/** Upper bounds (inclusive, ms) of the task duration histogram buckets. */
+export const DURATION_BUCKETS_MS = [
+  10, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000,
+] as const;
+
+export type HistogramSnapshot = {
+  count: number;
+  sumMs: number;
+  minMs: number;
+  maxMs: number;
+  /** Non-cumulative counts; the last bucket (`le: "+Inf"`) catches the rest. */
+  buckets: Array<{ le: number | "+Inf"; count: number }>;
+};
+
+export class Histogram {
+  private counts = new Array<number>(DURATION_BUCKETS_MS.length + 1).fill(0);
+  private count = 0;
+  private sum = 0;
+  private min = Infinity;
+  private max = 0;
+
+  observe(ms: number) {
+    const i = DURATION_BUCKETS_MS.findIndex((le) => ms <= le);
+    this.counts[i === -1 ? DURATION_BUCKETS_MS.length : i]!++;
+    this.count++;
+    this.sum += ms;
+    this.min = Math.min(this.min, ms);
+    this.max = Math.max(this.max, ms);
+  }
+
+  snapshot(): HistogramSnapshot {
+    return {
+      count: this.count,
+      sumMs: this.sum,
+      minMs: this.count ? this.min : 0,
+      maxMs: this.max,
+      buckets: this.counts.map((count, i) => ({
+        le: DURATION_BUCKETS_MS[i] ?? "+Inf",
+        count,
+      })),
+    };
+  }
+}
+
+/**
+ * Groups task ids by everything before the first all-digit segment, so
+ * `llm-1712-ab3` → `llm-`, `tool-fs-1712` → `tool-fs-`. Ids without a
+ * numeric segment are their own group.
+ */
+export function taskPrefix(id: string): string {
+  const parts = id.split("-");
+  const i = parts.findIndex((p) => /^\d+$/.test(p));
+  if (i <= 0) return id;
+  return parts.slice(0, i).join("-") + "-";
+}
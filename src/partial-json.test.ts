@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { PartialJsonParser } from "./partial-json.js";
+
+describe("PartialJsonParser", () => {
+  test("reports string values as they grow, by path", () => {
+    const p = new PartialJsonParser();
+
+    expect(p.push('```json\n{"schema_version": 1, "message": {"ty')).toEqual(
+      []
+    );
+    expect(p.push('pe":"step","goal":"Read th')).toEqual([
+      { path: ["message", "type"], delta: "step", text: "step", done: true },
+      {
+        path: ["message", "goal"],
+        delta: "Read th",
+        text: "Read th",
+        done: false,
+      },
+    ]);
+    expect(p.push('e notes", "say": "')).toEqual([
+      {
+        path: ["message", "goal"],
+        delta: "e notes",
+        text: "Read the notes",
+        done: true,
+      },
+    ]);
+    expect(p.push("")).toEqual([]);
+  });
+
+  test("decodes escapes split across chunks and tracks arrays", () => {
+    const p = new PartialJsonParser();
+    const seen = [
+      '{"a": [1, {"b": "x\\',
+      'n\\u00',
+      'e9"}, "c"], "d": true}',
+    ].flatMap((chunk) => p.push(chunk));
+
+    expect(seen.map((d) => [d.path, d.delta, d.done])).toEqual([
+      [["a", 1, "b"], "x", false],
+      [["a", 1, "b"], "\n", false],
+      [["a", 1, "b"], "é", true],
+      [["a", 2], "c", true],
+    ]);
+  });
+
+  test("goes quiet on input that is not JSON", () => {
+    const p = new PartialJsonParser();
+    expect(p.push('{"a" "b": "c"}')).toEqual([]);
+    expect(p.push('{"d": "e"}')).toEqual([]);
+  });
+});
@@ -0,0 +1,196 @@
+// partial-json.ts
+
+export type JsonPath = Array<string | number>;
+
+/** Text a chunk added to one string value, and the value so far. */
+export type StringDelta = {
+  path: JsonPath;
+  delta: string;
+  text: string;
+  /** The closing quote has arrived. */
+  done: boolean;
+};
+
+type Frame =
+  | {
+      kind: "object";
+      key: string | undefined;
+      state: "key" | "colon" | "value" | "comma";
+    }
+  | { kind: "array"; index: number; state: "value" | "comma" };
+
+type OpenString = {
+  /** Undefined while reading an object key. */
+  path: JsonPath | undefined;
+  text: string;
+  // "" right after a backslash, "uXX.." inside a \u escape
+  escape: string | undefined;
+};
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/*
+  Reads a JSON document as it streams in and reports its string values as
+  they grow, by path (`["message", "say"]`). Only structure is tracked: the
+  complete text still has to be parsed and validated. Anything before the
+  first `{` or `[` is skipped, e.g. a code fence, and after the first
+  character that cannot be JSON the parser reports nothing more.
+*/
+export class PartialJsonParser {
+  private stack: Frame[] = [];
+  private started = false;
+  private failed = false;
+  private str: OpenString | undefined;
+  // inside a number, true, false or null
+  private scalar = false;
+
+  push(chunk: string): StringDelta[] {
+    const out: StringDelta[] = [];
+    let delta = "";
+    const flush = (done: boolean) => {
+      const path = this.str?.path;
+      if (path && (delta || done)) {
+        out.push({ path, delta, text: this.str!.text, done });
+      }
+      delta = "";
+    };
+
+    for (const ch of chunk) {
+      if (this.failed) break;
+      const str = this.str;
+      if (!str) {
+        this.structural(ch);
+        continue;
+      }
+      let add: string | undefined;
+      if (str.escape === "") {
+        if (ch === "u") str.escape = "u";
+        else if (ch in ESCAPES) add = ESCAPES[ch];
+        else this.failed = true;
+        if (add !== undefined) str.escape = undefined;
+      } else if (str.escape !== undefined) {
+        str.escape += ch;
+        if (str.escape.length === 5) {
+          const code = parseInt(str.escape.slice(1), 16);
+          if (Number.isNaN(code)) this.failed = true;
+          else add = String.fromCharCode(code);
+          str.escape = undefined;
+        }
+      } else if (ch === "\\") {
+        str.escape = "";
+      } else if (ch === '"') {
+        flush(true);
+        this.closeString(str);
+      } else {
+        add = ch;
+      }
+      if (add !== undefined) {
+        str.text += add;
+        if (str.path) delta += add;
+      }
+    }
+    flush(false);
+    return out;
+  }
+
+  private closeString(str: OpenString) {
+    this.str = undefined;
+    const top = this.stack.at(-1);
+    if (!str.path && top?.kind === "object") {
+      top.key = str.text;
+      top.state = "colon";
+    } else {
+      this.valueDone();
+    }
+  }
+
+  private structural(ch: string) {
+    if (!this.started) {
+      if (ch === "{" || ch === "[") {
+        this.started = true;
+        this.open(ch);
+      }
+      return;
+    }
+    const top = this.stack.at(-1);
+    // the document is complete; ignore whatever trails it
+    if (!top) return;
+    const space = ch === " " || ch === "\n" || ch === "\r" || ch === "\t";
+    if (this.scalar) {
+      if (!space && ch !== "," && ch !== "}" && ch !== "]") return;
+      this.scalar = false;
+      this.valueDone();
+    }
+    if (space) return;
+
+    if (top.kind === "object") {
+      if (top.state === "key" && ch === '"') {
+        this.str = { path: undefined, text: "", escape: undefined };
+      } else if ((top.state === "key" || top.state === "comma") && ch === "}") {
+        this.close();
+      } else if (top.state === "colon" && ch === ":") {
+        top.state = "value";
+      } else if (top.state === "comma" && ch === ",") {
+        top.state = "key";
+      } else if (top.state === "value") {
+        this.beginValue(ch);
+      } else {
+        this.failed = true;
+      }
+      return;
+    }
+    if (ch === "]") {
+      this.close();
+    } else if (top.state === "comma" && ch === ",") {
+      top.index++;
+      top.state = "value";
+    } else if (top.state === "value") {
+      this.beginValue(ch);
+    } else {
+      this.failed = true;
+    }
+  }
+
+  private beginValue(ch: string) {
+    if (ch === "{" || ch === "[") {
+      this.open(ch);
+    } else if (ch === '"') {
+      this.str = { path: this.path(), text: "", escape: undefined };
+    } else if (/[-0-9tfn]/.test(ch)) {
+      this.scalar = true;
+    } else {
+      this.failed = true;
+    }
+  }
+
+  private open(ch: "{" | "[") {
+    this.stack.push(
+      ch === "{"
+        ? { kind: "object", key: undefined, state: "key" }
+        : { kind: "array", index: 0, state: "value" }
+    );
+  }
+
+  private close() {
+    this.stack.pop();
+    if (this.stack.length) this.valueDone();
+  }
+
+  private valueDone() {
+    const top = this.stack.at(-1);
+    if (top) top.state = "comma";
+  }
+
+  private path(): JsonPath {
+    return this.stack.map((f) => (f.kind === "object" ? f.key! : f.index));
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import { HttpStatusError, parseRetryAfter } from "./drivers/http-error.js";
+import { isRetryable, RetryInfo, withRetry } from "./retry.js";
+
+const fast = { maxAttempts: 5, baseDelayMs: 1, maxDelayMs: 5, jitter: 0 };
+
+describe("withRetry", () => {
+  test("retries retryable errors and reports each retry", async () => {
+    const retries: RetryInfo[] = [];
+    let calls = 0;
+    const out = await withRetry(
+      async () => {
+        if (++calls < 3) throw new HttpStatusError("busy", 503);
+        return "ok";
+      },
+      fast,
+      { onRetry: (info) => retries.push(info) }
+    );
+    expect(out).toBe("ok");
+    expect(retries.map((r) => `${r.attempt}/${r.maxAttempts}`)).toEqual([
+      "2/5",
+      "3/5",
+    ]);
+  });
+
+  test("gives up immediately on errors that are not retryable", async () => {
+    let calls = 0;
+    const run = withRetry(async () => {
+      calls++;
+      throw new HttpStatusError("bad request", 400);
+    }, fast);
+    await expect(run).rejects.toThrow("bad request");
+    expect(calls).toBe(1);
+  });
+
+  test("waits at least as long as Retry-After asks", async () => {
+    const retries: RetryInfo[] = [];
+    let calls = 0;
+    await withRetry(
+      async () => {
+        if (++calls === 1) throw new HttpStatusError("slow down", 429, 20);
+      },
+      fast,
+      { onRetry: (info) => retries.push(info) }
+    );
+    expect(retries[0]!.delayMs).toBe(20);
+  });
+
+  test("stops when the signal aborts during backoff", async () => {
+    const controller = new AbortController();
+    const run = withRetry(
+      async () => {
+        throw new HttpStatusError("busy", 503);
+      },
+      { ...fast, baseDelayMs: 1000, maxDelayMs: 1000 },
+      { signal: controller.signal, onRetry: () => controller.abort() }
+    );
+    await expect(run).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
+
+describe("retry classification", () => {
+  test("treats throttling, 5xx and network errors as retryable", () => {
+    expect(isRetryable(new HttpStatusError("", 429))).toBe(true);
+    expect(isRetryable(new HttpStatusError("", 502))).toBe(true);
+    expect(isRetryable(new TypeError("fetch failed"))).toBe(true);
+    expect(isRetryable(new HttpStatusError("", 401))).toBe(false);
+    expect(isRetryable(new DOMException("x", "AbortError"))).toBe(false);
+  });
+
+  test("parses Retry-After seconds and dates", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter(new Date(10_000).toUTCString(), 4_000)).toBe(6000);
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
@@ -0,0 +1,114 @@
+// retry.ts
+import { Clock, systemClock } from "./clock.js";
+import type { Effect } from "./effect.js";
+
+export type RetryPolicy = {
+  /** Total attempts including the first one. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Fraction (0..1) of each delay that is randomized. Defaults to 0.5. */
+  jitter?: number;
+  /** Decides whether an error is worth another attempt. */
+  retryable?: (err: unknown) => boolean;
+};
+
+/**
+ * Policies are looked up per tool first, then per effect kind; planner LLM
+ * calls use the `LlmGenerate` policy.
+ */
+export type RetryPolicies = {
+  effects?: Partial<Record<Effect["kind"], RetryPolicy>>;
+  tools?: Record<string, RetryPolicy>;
+};
+
+export type RetryInfo = {
+  /** The attempt about to start (2 for the first retry). */
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: string;
+};
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429]);
+
+export function isAbortError(err: any): boolean {
+  return err?.name === "AbortError" || err?.name === "TimeoutError";
+}
+
+/**
+ * Default classification: throttling and server-side HTTP statuses, network
+ * failures (fetch rejects with a TypeError) and anything flagged `retryable`.
+ */
+export function isRetryable(err: any): boolean {
+  if (!err || isAbortError(err)) return false;
+  if (typeof err.retryable === "boolean") return err.retryable;
+  if (typeof err.status === "number") {
+    return RETRYABLE_STATUS.has(err.status) || err.status >= 500;
+  }
+  return err instanceof TypeError;
+}
+
+export function retryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  err?: any
+): number {
+  const exp = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** Math.max(0, attempt - 2)
+  );
+  const jitter = Math.min(1, Math.max(0, policy.jitter ?? 0.5));
+  const delay = Math.round(exp * (1 - jitter * Math.random()));
+  const retryAfter = err?.retryAfterMs;
+  return typeof retryAfter === "number" ? Math.max(delay, retryAfter) : delay;
+}
+
+function sleep(ms: number, clock: Clock, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clock.clearTimer(timer);
+      reject(signal!.reason);
+    };
+    const timer = clock.setTimer(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `fn` until it succeeds, the policy gives up or `signal` aborts.
+ * `onRetry` fires once per retry, before the backoff sleep.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy | undefined,
+  opts: {
+    signal?: AbortSignal;
+    onRetry?: (info: RetryInfo) => void;
+    /** Time source for backoff sleeps; defaults to real timers. */
+    clock?: Clock;
+  } = {}
+): Promise<T> {
+  const maxAttempts = Math.max(1, policy?.maxAttempts ?? 1);
+  const retryable = policy?.retryable ?? isRetryable;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (err: any) {
+      if (!policy || attempt >= maxAttempts || opts.signal?.aborted) throw err;
+      if (!retryable(err)) throw err;
+      const delayMs = retryDelay(policy, attempt + 1, err);
+      opts.onRetry?.({
+        attempt: attempt + 1,
+        maxAttempts,
+        delayMs,
+        error: err?.message || String(err),
+      });
+      await sleep(delayMs, opts.clock ?? systemClock, opts.signal);
+    }
+  }
+}
@@ -1,28 +1,213 @@
 // router.ts
 
-import { ActorId } from "./actor.js";
+import { Actor, ActorId } from "./actor.js";
 import { Event } from "./events.js";
+import { Mailbox, MailboxOptions, MailboxSnapshot } from "./mailbox.js";
+import type { AgentUiEvent } from "./ui-messages.js";
 
-export interface Actor {
-  id: ActorId;
-  on(event: Event): { effects?: any[] } | void;
-}
+/*
+  An event no actor could take: its target never existed or was stopped,
+  or its mailbox was full.
+*/
+export type DeadLetter = {
+  event: Event;
+  reason: "unknown-actor" | "stopped" | "mailbox-full";
+};
+
+/*
+  Topics are event types ("ToolResult", "START", ...), the topic of a
+  `Published` event, or "ui" for UI events; "*" matches every topic. Actors
+  subscribe by id and receive events through their mailbox; observers are
+  plain callbacks and also see UI events.
+*/
+export type Observer = (evt: Event | AgentUiEvent) => void;
+type Subscriber = ActorId | Observer;
+
+export type RouterHooks = {
+  /** `on()` threw, or the promise it returned rejected. */
+  crashed(actor: Actor, err: unknown, event: Event): void;
+  deadLetter(letter: DeadLetter): void;
+  observerFailed(err: unknown, topic: string): void;
+};
+
+type PendingReply = {
+  resolve: (body: unknown) => void;
+  reject: (err: unknown) => void;
+};
 
 export class Router {
   private actors = new Map<ActorId, Actor>();
-  register(actor: Actor) {
-    this.actors.set(actor.id, actor);
+  private mailboxes = new Map<ActorId, Mailbox>();
+  private parents = new Map<ActorId, ActorId>();
+  private pending = new Map<string, PendingReply>();
+  private stopped = new Set<ActorId>();
+  private subscribers = new Map<string, Set<Subscriber>>();
+
+  constructor(private hooks: RouterHooks) {}
+
+  /*
+    Also used to swap in a restarted actor under the same id; the mailbox,
+    and whatever is waiting in it, carries over to the new instance.
+  */
+  register(actor: Actor, parent?: ActorId, mailbox?: MailboxOptions) {
+    const { id } = actor;
+    this.actors.set(id, actor);
+    this.stopped.delete(id);
+    if (parent) this.parents.set(id, parent);
+    if (!this.mailboxes.has(id)) {
+      this.mailboxes.set(
+        id,
+        new Mailbox(
+          (evt) => this.deliver(id, evt),
+          (evt) => this.undeliverable(evt, "mailbox-full"),
+          mailbox
+        )
+      );
+    }
+  }
+
+  /** Removes an actor and its descendants; returns them, leaves first. */
+  unregister(id: ActorId): Actor[] {
+    const actor = this.actors.get(id);
+    if (!actor) return [];
+    const removed = this.children(id).flatMap((child) =>
+      this.unregister(child)
+    );
+    this.actors.delete(id);
+    this.parents.delete(id);
+    this.stopped.add(id);
+    for (const subs of this.subscribers.values()) subs.delete(id);
+    const left = this.mailboxes.get(id)?.close() ?? [];
+    this.mailboxes.delete(id);
+    for (const evt of left) this.undeliverable(evt, "stopped");
+    return [...removed, actor];
   }
 
   get(id: ActorId): Actor | undefined {
     return this.actors.get(id);
   }
 
+  ids(): ActorId[] {
+    return [...this.actors.keys()];
+  }
+
+  has(id: ActorId): boolean {
+    return this.actors.has(id);
+  }
+
+  parentOf(id: ActorId): ActorId | undefined {
+    return this.parents.get(id);
+  }
+
+  /** Children of `id`, or the top-level actors when `id` is undefined. */
+  children(id: ActorId | undefined): ActorId[] {
+    return [...this.actors.keys()].filter((c) => this.parents.get(c) === id);
+  }
+
+  /** Queue depth and throughput of every actor's mailbox. */
+  mailboxStats(): Record<ActorId, MailboxSnapshot> {
+    return Object.fromEntries(
+      [...this.mailboxes].map(([id, box]) => [id, box.snapshot()])
+    );
+  }
+
+  subscribe(topic: string, subscriber: Subscriber): () => void {
+    let subs = this.subscribers.get(topic);
+    if (!subs) this.subscribers.set(topic, (subs = new Set()));
+    subs.add(subscriber);
+    return () => subs.delete(subscriber);
+  }
+
+  /*
+    Hands `evt` to the subscribers of `topic` and of "*". Actors in
+    `delivered` already have the event and are skipped.
+  */
+  publish(
+    topic: string,
+    evt: Event | AgentUiEvent,
+    delivered = new Set<ActorId>()
+  ) {
+    for (const key of [topic, "*"]) {
+      for (const sub of this.subscribers.get(key) ?? []) {
+        if (typeof sub === "function") {
+          try {
+            sub(evt);
+          } catch (err) {
+            this.hooks.observerFailed(err, topic);
+          }
+        } else if ("type" in evt && !delivered.has(sub)) {
+          delivered.add(sub);
+          this.mailboxes.get(sub)?.push(evt);
+        }
+      }
+    }
+  }
+
+  /** Resolves with the body of the reply to `msgId` once it is dispatched. */
+  expectReply(msgId: string): Promise<unknown> {
+    return new Promise((resolve, reject) =>
+      this.pending.set(msgId, { resolve, reject })
+    );
+  }
+
+  /** Rejects a pending reply, e.g. when the ask timed out. */
+  abandonReply(msgId: string, reason: unknown) {
+    this.pending.get(msgId)?.reject(reason);
+    this.pending.delete(msgId);
+  }
+
   dispatch(evt: Event) {
-    // Some Event variants (e.g. START) do not include a target; ignore them.
-    if (!("target" in evt)) return;
-    const a = this.actors.get(evt.target as ActorId);
-    if (!a) throw new Error(`Actor not found: ${evt.target}`);
-    a.on(evt);
+    if (evt.type === "Published") return this.publish(evt.topic, evt);
+    // events without a target (e.g. START) are broadcast to every actor
+    if (!("target" in evt)) {
+      for (const box of this.mailboxes.values()) box.push(evt);
+      this.publish(evt.type, evt, new Set(this.mailboxes.keys()));
+      return;
+    }
+    // replies to an ask go to the waiting promise, not to the actor
+    if (evt.type === "Message" && evt.inReplyTo) {
+      const waiting = this.pending.get(evt.inReplyTo);
+      if (waiting) {
+        this.pending.delete(evt.inReplyTo);
+        waiting.resolve(evt.body);
+        return;
+      }
+    }
+    const box = this.mailboxes.get(evt.target as ActorId);
+    if (box) {
+      box.push(evt);
+    } else {
+      // e.g. late results of work an actor had in flight when it was stopped
+      this.undeliverable(
+        evt,
+        this.stopped.has(evt.target) ? "stopped" : "unknown-actor"
+      );
+    }
+    this.publish(evt.type, evt, new Set([evt.target]));
+  }
+
+  // called by the mailbox; never throws, crashes go to the supervisor
+  private deliver(id: ActorId, evt: Event): Promise<void> | void {
+    const a = this.actors.get(id);
+    if (!a) return this.undeliverable(evt, "stopped");
+    try {
+      const done = a.on(evt);
+      if (done instanceof Promise) {
+        return done.catch((err) => this.hooks.crashed(a, err, evt));
+      }
+    } catch (err) {
+      this.hooks.crashed(a, err, evt);
+    }
+  }
+
+  private undeliverable(evt: Event, reason: DeadLetter["reason"]) {
+    // an ask that cannot be delivered fails now instead of timing out
+    if (evt.type === "Message" && this.pending.has(evt.msgId)) {
+      this.abandonReply(
+        evt.msgId,
+        new Error(`message to ${evt.target} not delivered: ${reason}`)
+      );
+    }
+    this.hooks.deadLetter({ event: evt, reason });
   }
 }
@@ -0,0 +1,560 @@
+import { describe, expect, test } from "bun:test";
+import type { Actor, ActorContext, Message } from "./actor.js";
+import { LlmPort, transcript } from "./drivers/llm-port.js";
+import type { ToolPort } from "./drivers/tools-port.js";
+import type { Event } from "./events.js";
+import { Logger } from "./logger.js";
+import { Runtime } from "./runtime.js";
+import { EffectJournal, readJournal } from "./runtime/journal.js";
+import { RuntimeHarness } from "./testing/runtime-harness.js";
+import type { DeadLetter } from "./router.js";
+import { deferred, settle } from "./testing/scheduler-driver.js";
+
+declare module "./effect.js" {
+  interface EffectMap {
+    Echo: { target: string; text: string };
+  }
+}
+
+const turn = (message: object) =>
+  JSON.stringify({ schema_version: 1, message });
+
+/** Replies with `replies` in order, one per generate() call. */
+function scripted(replies: string[]): LlmPort & { calls: number } {
+  return {
+    calls: 0,
+    async *generate() {
+      const reply = replies[this.calls++];
+      if (reply === undefined) throw new Error("script exhausted");
+      yield reply;
+    },
+  };
+}
+
+describe("Runtime", () => {
+  test("an interrupt mid-stream aborts the request and idles the agent", async () => {
+    const midStream = deferred();
+    let abortSeen = false;
+    const llm: LlmPort = {
+      async *generate(_prompt, opts) {
+        yield '{"schema_version":1,';
+        midStream.resolve();
+        await new Promise((_, reject) =>
+          opts?.signal?.addEventListener("abort", () => {
+            abortSeen = true;
+            reject(opts.signal!.reason);
+          })
+        );
+      },
+    };
+    const h = await RuntimeHarness.create({ llm });
+    const observed: string[] = [];
+    h.runtime.subscribe("*", (e) => "type" in e && observed.push(e.type));
+
+    h.say("build something");
+    expect(await h.driver.step()).toMatch(/^llm-/);
+    await midStream.promise;
+
+    h.runtime.interrupt("agent#1");
+    await h.driver.runUntilIdle();
+
+    expect(abortSeen).toBe(true);
+    expect(h.kinds()).toEqual([
+      "session-start",
+      "user-turn",
+      "planning-start",
+      "llm-start",
+      "status",
+      "planning-stop",
+      "stream-done",
+      "llm-end",
+    ]);
+    expect(h.ofKind("planning-stop")[0]!.reason).toBe("interrupted");
+    expect(observed).toContain("LlmCanceled");
+    expect(h.runtime.stats().inFlight).toEqual([]);
+  });
+
+  test("a tool result arriving after max-steps is ignored", async () => {
+    const steps = Array.from({ length: 11 }, (_, i) =>
+      turn({ type: "step", step: i + 1, goal: `goal ${i + 1}` })
+    );
+    const llm = scripted([
+      ...steps,
+      turn({
+        type: "action",
+        step: 12,
+        toolcall_id: "t1",
+        tool: "fs",
+        args: { op: "read", path: "a.txt" },
+      }),
+    ]);
+    const fs: ToolPort = {
+      name: "fs",
+      run: async () => ({ ok: true, data: "contents" }),
+    };
+    const h = await RuntimeHarness.create({ llm, tools: [fs] });
+
+    h.say("read a.txt");
+    await h.driver.runUntilIdle();
+    expect(llm.calls).toBe(12);
+    expect(h.ofKind("status").map((e) => e.status)).toEqual(["max-steps"]);
+    expect(h.ofKind("planning-stop").map((e) => e.reason)).toEqual([
+      "max-steps",
+    ]);
+
+    const before = h.events.length;
+    h.runtime.dispatch({
+      type: "ToolResult",
+      target: "agent#1",
+      tool: "fs",
+      ok: true,
+      data: "late",
+    });
+    await h.driver.runUntilIdle();
+    expect(h.events.length).toBe(before);
+    expect(llm.calls).toBe(12);
+  });
+
+  test("input arriving mid-turn waits for the planner loop", async () => {
+    const first = deferred();
+    const final = turn({ type: "final", step: 1, summary: "ok" });
+    let calls = 0;
+    const llm: LlmPort = {
+      async *generate() {
+        if (++calls === 1) await first.promise;
+        yield final;
+      },
+    };
+    const h = await RuntimeHarness.create({ llm });
+
+    h.say("one");
+    await h.driver.step();
+    h.say("two");
+    expect(h.runtime.mailboxes()["agent#1"]!.depth).toBe(1);
+    expect(calls).toBe(1);
+
+    first.resolve();
+    await settle();
+    await h.driver.runUntilIdle();
+    expect(calls).toBe(2);
+    expect(
+      h.events
+        .filter((e) => e.kind === "user-turn" || e.kind === "planning-stop")
+        .map((e) => (e.kind === "user-turn" ? e.text : e.kind))
+    ).toEqual(["one", "planning-stop", "two", "planning-stop"]);
+  });
+
+  test("a resumed session continues the saved conversation", async () => {
+    const first = await RuntimeHarness.create({
+      llm: scripted([turn({ type: "final", step: 1, summary: "hello" })]),
+    });
+    const { logDir } = first;
+    first.say("remember the word kumquat");
+    await first.driver.runUntilIdle();
+    await first.runtime.drain();
+
+    const [saved, ...others] = await Runtime.listSessions(logDir);
+    expect(others).toEqual([]);
+    expect(saved!.title).toBe("remember the word kumquat");
+
+    const prompts: string[] = [];
+    const h = await RuntimeHarness.create({
+      logDir,
+      resume: saved!.sessionId,
+      llm: {
+        async *generate(messages) {
+          prompts.push(transcript(messages));
+          yield turn({ type: "final", step: 1, summary: "kumquat" });
+        },
+      },
+    });
+    h.say("which word?");
+    await h.driver.runUntilIdle();
+
+    expect(h.ofKind("session-start")[0]).toMatchObject({
+      sessionId: saved!.sessionId,
+      resumed: true,
+    });
+    expect(prompts[0]).toContain("USER: remember the word kumquat");
+    expect(prompts[0]).toContain('ASSISTANT: {"type":"final"');
+    expect(prompts[0]).toContain("USER: which word?");
+  });
+
+  test("resuming an unknown session fails", async () => {
+    const h = await RuntimeHarness.create({ llm: scripted([]) });
+    await expect(
+      RuntimeHarness.create({
+        llm: scripted([]),
+        logDir: h.logDir,
+        resume: "session-missing",
+      })
+    ).rejects.toThrow("no saved session: session-missing");
+  });
+
+  test("runs effect kinds registered from outside the runtime", async () => {
+    const h = await RuntimeHarness.create({ llm: scripted([]) });
+    h.runtime.registerEffect(
+      "Echo",
+      async (eff, ctx) => ({
+        type: "ToolResult",
+        tool: "echo",
+        ok: true,
+        data: `${eff.text} (${ctx.taskId})`,
+        target: eff.target,
+      }),
+      { taskId: () => "echo-1", lane: "ui" }
+    );
+
+    const result = h.runtime.perform({
+      kind: "Echo",
+      target: "agent#1",
+      text: "hi",
+    });
+    expect(await h.driver.step()).toBe("echo-1");
+    expect(await result).toEqual([
+      {
+        type: "ToolResult",
+        tool: "echo",
+        ok: true,
+        data: "hi (echo-1)",
+        target: "agent#1",
+      },
+    ]);
+  });
+
+  test("a perform canceled before its scheduled run rejects", async () => {
+    const fs: ToolPort = {
+      name: "fs",
+      run: async () => ({ ok: true, data: "" }),
+    };
+    const h = await RuntimeHarness.create({ llm: scripted([]), tools: [fs] });
+
+    const result = h.runtime.perform({
+      kind: "ToolCall",
+      tool: "fs",
+      args: {},
+      target: "agent#1",
+      schedule: { runAt: h.clock.now() + 60_000 },
+    });
+    h.runtime.interrupt("agent#1");
+    await expect(result).rejects.toThrow("interrupted");
+  });
+
+  describe("restart", () => {
+    async function withEcho() {
+      const h = await RuntimeHarness.create({ llm: scripted([]) });
+      const ran: string[] = [];
+      h.runtime.registerEffect("Echo", async (eff) => {
+        ran.push(eff.text);
+        return [];
+      });
+      const echo = (text: string) =>
+        h.runtime.perform({ kind: "Echo", target: "agent#1", text });
+      return { h, ran, echo };
+    }
+
+    test("from stopped runs the work queued meanwhile", async () => {
+      const { h, ran, echo } = await withEcho();
+      h.runtime.start();
+      h.runtime.stop();
+      const queued = echo("while stopped");
+      await settle();
+      expect(ran).toEqual([]);
+
+      await h.runtime.restart();
+      await queued;
+      expect(ran).toEqual(["while stopped"]);
+      expect(h.runtime.getStatus()).toBe("running");
+      h.runtime.stop();
+    });
+
+    test("from paused runs the work queued meanwhile", async () => {
+      const { h, ran, echo } = await withEcho();
+      h.runtime.start();
+      h.runtime.pause();
+      const queued = echo("while paused");
+      await settle();
+      expect(ran).toEqual([]);
+
+      await h.runtime.drain();
+      expect(ran).toEqual([]);
+      await h.runtime.restart();
+      await queued;
+      expect(ran).toEqual(["while paused"]);
+      expect(h.runtime.getStatus()).toBe("running");
+      h.runtime.stop();
+    });
+  });
+
+  test("a journaled session replays offline to the same events", async () => {
+    const replies = [
+      turn({
+        type: "action",
+        step: 1,
+        toolcall_id: "t1",
+        tool: "fs",
+        args: { op: "read", path: "a.txt" },
+      }),
+      turn({ type: "final", step: 2, summary: "read it", deliverables: [] }),
+    ];
+    const blocked = deferred();
+    const llm: LlmPort = {
+      async *generate(_prompt, opts) {
+        const reply = replies.shift();
+        if (reply) return yield reply;
+        blocked.resolve();
+        await new Promise((_, reject) =>
+          opts?.signal?.addEventListener("abort", () =>
+            reject(opts.signal!.reason)
+          )
+        );
+      },
+    };
+    const fs: ToolPort = {
+      name: "fs",
+      run: async () => ({ ok: true, data: "contents" }),
+    };
+    const rec = await RuntimeHarness.create({ llm, tools: [fs] });
+    rec.say("read a.txt");
+    await rec.driver.runUntilIdle();
+    rec.say("and again");
+    await rec.driver.step();
+    await blocked.promise;
+    rec.runtime.interrupt("agent#1");
+    await rec.driver.runUntilIdle();
+    await rec.runtime.drain();
+
+    const entries = await readJournal(rec.runtime.journalFile!);
+    const h = await RuntimeHarness.create({
+      llm: scripted([]),
+      replay: entries,
+    });
+    await h.driver.runUntilIdle();
+
+    expect(h.runtime.journalFile).toBeNull();
+    expect(h.ofKind("planning-stop").map((e) => e.reason)).toEqual([
+      "final",
+      "interrupted",
+    ]);
+    expect(h.events.slice(1)).toEqual(rec.events.slice(1));
+  });
+
+  test("a failed journal write loses only its own entry", async () => {
+    const written: unknown[] = [];
+    const errors: string[] = [];
+    let fail = true;
+    const journal = new EffectJournal(
+      new (class extends Logger {
+        override async append(entry: unknown) {
+          if (fail) {
+            fail = false;
+            throw new Error("disk full");
+          }
+          written.push(entry);
+        }
+        override error(message: string) {
+          errors.push(message);
+        }
+      })("")
+    );
+
+    journal.interrupt("agent#1");
+    journal.interrupt("agent#2");
+    await journal.flush();
+    expect(written).toEqual([
+      expect.objectContaining({ seq: 2, target: "agent#2" }),
+    ]);
+    expect(errors).toEqual(["[journal] failed to write entry 1: disk full"]);
+  });
+});
+
+describe("actors", () => {
+  /** Squares numbers it is asked for. */
+  class Worker implements Actor {
+    readonly id: string;
+    constructor(private ctx: ActorContext) {
+      this.id = ctx.self;
+    }
+    on(event: Event) {
+      if (event.type !== "Message") return;
+      const msg = event as Message<number>;
+      this.ctx.emit({ kind: "step", step: 1, goal: `square ${msg.body}` });
+      this.ctx.reply(msg, msg.body * msg.body);
+    }
+  }
+
+  test("a parent spawns a child, asks it and gets the reply", async () => {
+    const h = await RuntimeHarness.create({ llm: scripted([]) });
+    let ctx!: ActorContext;
+    const parent = h.runtime.spawn("coordinator", (c) => {
+      ctx = c;
+      return { id: c.self, on() {} };
+    });
+    const worker = ctx.spawn("worker", (c) => new Worker(c));
+
+    expect(parent).toBe("coordinator#1");
+    expect(worker).toBe("worker#1");
+    expect(await ctx.ask<number>(worker, 7)).toBe(49);
+    expect(h.ofKind("step").map((e) => e.actorId)).toEqual(["worker#1"]);
+  });
+
+  test("asks time out, and fail at once when the actor is gone", async () => {
+    const h = await RuntimeHarness.create({ llm: scripted([]) });
+    let ctx!: ActorContext;
+    const stopped: string[] = [];
+    h.runtime.spawn("coordinator", (c) => {
+      ctx = c;
+      return { id: c.self, on() {}, stopped: () => stopped.push(c.self) };
+    });
+    const child = ctx.spawn("idle", (c) => ({
+      id: c.self,
+      on() {},
+      stopped: () => stopped.push(c.self),
+    }));
+
+    const dead: DeadLetter[] = [];
+    h.runtime.onDeadLetter((letter) => dead.push(letter));
+
+    const answer = ctx.ask(child, "anyone?", { timeoutMs: 1000 });
+    await settle();
+    h.clock.advance(1000);
+    await expect(answer).rejects.toThrow("no reply from idle#1");
+
+    h.runtime.stopActor("coordinator#1");
+    expect(stopped).toEqual(["idle#1", "coordinator#1"]);
+    const late = ctx.ask(child, "still there?");
+    ctx.send("nobody#1", "hello");
+    await expect(late).rejects.toThrow("not delivered: stopped");
+    expect(dead.map((d) => d.reason)).toEqual(["stopped", "unknown-actor"]);
+  });
+
+  test("topics reach subscribed actors and observers", async () => {
+    const h = await RuntimeHarness.create({ llm: scripted([]) });
+    const got: Record<string, string[]> = {};
+    const listener = (c: ActorContext): Actor => {
+      got[c.self] = [];
+      c.subscribe("builds");
+      return {
+        id: c.self,
+        on: (event) => {
+          got[c.self]!.push(
+            event.type === "Published"
+              ? `${event.topic}:${event.body}`
+              : event.type
+          );
+        },
+      };
+    };
+    let ctx!: ActorContext;
+    h.runtime.spawn("publisher", (c) => {
+      ctx = c;
+      return { id: c.self, on() {} };
+    });
+    h.runtime.spawn("listener", listener);
+    h.runtime.spawn("listener", listener);
+    const observed: string[] = [];
+    h.runtime.subscribe("*", (e) =>
+      observed.push("kind" in e ? `ui ${e.kind}` : e.type)
+    );
+
+    ctx.publish("builds", "ok");
+    ctx.publish("deploys", "skipped");
+    await settle();
+    h.runtime.dispatch({ type: "START", sessionId: "s" });
+    ctx.emit({ kind: "step", step: 1, goal: "watch" });
+
+    expect(got).toEqual({
+      "listener#1": ["builds:ok", "START"],
+      "listener#2": ["builds:ok", "START"],
+    });
+    expect(observed).toEqual([
+      "Published",
+      "Published",
+      "START",
+      "ui step",
+    ]);
+  });
+
+  describe("supervision", () => {
+    const policy = { maxRestarts: 2, withinMs: 1000 };
+
+    /** Spawns `count` children of a supervisor; "boom" crashes a child. */
+    async function supervised(
+      strategy: "one-for-one" | "one-for-all",
+      count = 1
+    ) {
+      const h = await RuntimeHarness.create({ llm: scripted([]) });
+      const started: string[] = [];
+      let ctx!: ActorContext;
+      h.runtime.spawn(
+        "supervisor",
+        (c) => {
+          ctx = c;
+          return { id: c.self, on() {} };
+        },
+        { supervision: { strategy, ...policy } }
+      );
+      const children = Array.from({ length: count }, () =>
+        ctx.spawn("child", (c) => {
+          started.push(c.self);
+          return {
+            id: c.self,
+            on(event) {
+              if (event.type === "Message" && event.body === "boom") {
+                throw new Error("boom");
+              }
+            },
+          };
+        })
+      );
+      const crash = async (id: string) => {
+        ctx.send(id, "boom");
+        await settle();
+      };
+      return { h, ctx, children, started, crash };
+    }
+
+    test("one-for-one restarts only the crashed child", async () => {
+      const { h, children, started, crash } = await supervised(
+        "one-for-one",
+        2
+      );
+      await crash(children[0]!);
+      expect(started).toEqual(["child#1", "child#2", "child#1"]);
+      expect(h.ofKind("error")).toMatchObject([
+        {
+          phase: "runtime",
+          actorId: "child#1",
+          message: "child#1 crashed: boom (restarting)",
+        },
+      ]);
+    });
+
+    test("one-for-all restarts every child of the supervisor", async () => {
+      const { children, started, crash } = await supervised("one-for-all", 2);
+      await crash(children[1]!);
+      expect(started).toEqual(["child#1", "child#2", "child#1", "child#2"]);
+    });
+
+    test("past the restart limit the crash escalates", async () => {
+      const { h, children, started, crash } = await supervised("one-for-one");
+      await crash(children[0]!);
+      await crash(children[0]!);
+      h.clock.advance(1000); // earlier restarts leave the window
+      await crash(children[0]!);
+      await crash(children[0]!);
+      expect(started).toHaveLength(5);
+
+      await crash(children[0]!);
+      expect(started).toHaveLength(5);
+      expect(h.ofKind("error").at(-2)!.message).toBe(
+        "child#1 crashed: boom (gave up after 2 restarts)"
+      );
+      // the supervisor is restarted in turn, taking its children with it
+      expect(h.ofKind("error").at(-1)!.message).toBe(
+        "supervisor#1 crashed: child child#1 kept crashing (restarting)"
+      );
+    });
+  });
+});
+
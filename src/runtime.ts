@@ -1,104 +1,756 @@
 import { join } from "node:path";
 import { LlmAdapter } from "./drivers/llm.js";
-import { OpenAIResponsesPort } from "./drivers/openai-port.js";
+import { CachingLlmPort, LlmCacheOptions } from "./drivers/caching-port.js";
+import type { LlmPort } from "./drivers/llm-port.js";
+import {
+  createLlmPort,
+  LlmProviderConfig,
+  LlmRoutingConfig,
+  llmRoutingFromEnv,
+} from "./drivers/providers.js";
 import { Event } from "./events.js";
 import { Logger } from "./logger.js";
-import { Router } from "./router.js";
-import { Scheduler } from "./scheduler.js";
+import { DeadLetter, Observer, Router } from "./router.js";
+import type { MailboxSnapshot } from "./mailbox.js";
+import { Scheduler, SchedulerSnapshot, TaskSchedule } from "./scheduler.js";
 import { mkdir } from "node:fs/promises";
 import { ToolsAdapter } from "./runtime/tools-adapter.js";
 import { FsPort } from "./drivers/fs-port.js";
 import { HttpPort } from "./drivers/http-port.js";
+import { ToolPort } from "./drivers/tools-port.js";
 import { BuilderAgent } from "./actors/builder-agent.js";
-import { Effect } from "./effect.js";
+import type {
+  Actor,
+  ActorContext,
+  ActorId,
+  SpawnOptions,
+  SupervisionPolicy,
+} from "./actor.js";
+import {
+  Effect,
+  EffectKind,
+  EffectRegistry,
+  EffectRunner,
+  EffectRunOptions,
+} from "./effect.js";
+import { RunnerRegistry } from "./runtime/effect-registry.js";
+import {
+  SessionSnapshot,
+  SessionStore,
+  SessionSummary,
+} from "./runtime/session-store.js";
+import {
+  EffectJournal,
+  JournalEntry,
+  JournalReplay,
+} from "./runtime/journal.js";
 import type { AgentUiEvent } from "./ui-messages.js";
+import { isAbortError, RetryPolicies } from "./retry.js";
+import {
+  DEFAULT_PRICES,
+  PriceTable,
+  UsageMeter,
+  UsageTotals,
+} from "./usage.js";
+
+export type RuntimeOptions = {
+  /** Retry policies per effect kind and per tool; merged over the defaults. */
+  retry?: RetryPolicies;
+  /** Interval of `metrics` UI events while running; 0 disables them. */
+  metricsIntervalMs?: number;
+  /** Directory for runtime logs. Defaults to `./logs`. */
+  logDir?: string;
+  /** Model port to use as is; `provider` is ignored when set. */
+  llm?: LlmPort;
+  /**
+   * Model API to build the port for, or a chain of them to fall back along.
+   * Defaults to `llmRoutingFromEnv()`.
+   */
+  provider?: LlmProviderConfig | LlmRoutingConfig;
+  /** Tool ports to register instead of the default fs/http ports. */
+  tools?: ToolPort[];
+  /** Pre-built scheduler, e.g. one on a virtual clock driven by a test. */
+  scheduler?: Scheduler;
+  /**
+   * A recorded session to play back: effects return their journaled results
+   * and recorded user input is fed in again. Nothing new is journaled.
+   */
+  replay?: JournalEntry[];
+  /** How crashed top-level actors (e.g. the builder agent) are restarted. */
+  supervision?: SupervisionPolicy;
+  /** Id of a saved session to continue; actors get their state back. */
+  resume?: string;
+  /** Model prices in USD per million tokens; merged over the defaults. */
+  prices?: PriceTable;
+  /** Spending cap in USD; model requests are refused once it is reached. */
+  maxCostUsd?: number;
+  /**
+   * Serve repeated model requests from disk, under `<logDir>/llm-cache`
+   * unless `dir` says otherwise. Replays never use it.
+   */
+  llmCache?: Partial<LlmCacheOptions>;
+};
+
+const DEFAULT_RETRY: RetryPolicies = {
+  effects: {
+    LlmGenerate: { maxAttempts: 4, baseDelayMs: 500, maxDelayMs: 8000 },
+  },
+  tools: {
+    http: { maxAttempts: 3, baseDelayMs: 250, maxDelayMs: 4000 },
+  },
+};
+
+const DEFAULT_SUPERVISION: SupervisionPolicy = {
+  strategy: "one-for-one",
+  maxRestarts: 3,
+  withinMs: 60_000,
+};
+
+type ActorSpec = {
+  create: (ctx: ActorContext) => Actor;
+  parent: ActorId | undefined;
+  /** Policy for this actor's own children. */
+  supervision: SupervisionPolicy;
+};
+
+// a replay never reaches the model, so it needs no API key
+const OFFLINE_LLM: LlmPort = {
+  async *generate() {
+    throw new Error("LLM calls are disabled while replaying");
+  },
+};
+
+function newId(prefix: string) {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
 
 export class Runtime {
   private scheduler: Scheduler;
   private logger: Logger;
   private router: Router;
-  private status: "idle" | "running";
+  private status: "idle" | "running" | "paused";
   private llm: LlmAdapter;
   private tools: ToolsAdapter;
+  private effects = new RunnerRegistry();
+  private spawned = new Map<string, number>();
+  private actorSpecs = new Map<ActorId, ActorSpec>();
+  private restarts = new Map<ActorId, number[]>();
+  private deadLetterListeners = new Set<(letter: DeadLetter) => void>();
+  private readonly supervision: SupervisionPolicy;
+  private msgSeq = 0;
+  private announced = false;
+  private readonly sessions: SessionStore | null = null;
+  private readonly createdAt: number;
+  private title: string | undefined;
+  // actor state of a resumed session, handed out as actors are spawned
+  private readonly restored: Record<ActorId, unknown>;
+  private saving: Promise<void> = Promise.resolve();
+  private readonly runner: EffectRegistry;
+  private readonly journal: EffectJournal | null = null;
+  private readonly replay: JournalReplay | null = null;
+  /** Where this session's effects are journaled (null while replaying). */
+  readonly journalFile: string | null = null;
   private readonly onReplyUpdate: (evt: AgentUiEvent) => void;
   private readonly sessionId: string;
+  private readonly metricsIntervalMs: number;
+  private unsubscribeMetrics: (() => void) | null = null;
+  private readonly meter: UsageMeter;
   private constructor(
     onReplyUpdate: (evt: AgentUiEvent) => void,
-    logFile: string
+    logDir: string,
+    options: RuntimeOptions,
+    resumed?: SessionSnapshot
   ) {
-    this.logger = new Logger(logFile);
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    this.logger = new Logger(join(logDir, `runtime-${timestamp}.log`));
     this.onReplyUpdate = onReplyUpdate;
-    this.sessionId = `session-${Date.now()}-${Math.random()
-      .toString(36)
-      .slice(2, 10)}`;
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) throw new Error("OPENAI_API_KEY is not set");
-    this.scheduler = new Scheduler(this.logger);
-    this.router = new Router();
-    this.tools = new ToolsAdapter(this.scheduler, (e) => this.dispatch(e));
-    this.tools.register(new FsPort(process.cwd()));
-    this.tools.register(new HttpPort());
+    this.sessionId =
+      resumed?.sessionId ??
+      `session-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+    this.createdAt = resumed?.createdAt ?? Date.now();
+    this.title = resumed?.title;
+    this.restored = resumed?.actors ?? {};
+    if (options.replay) {
+      this.replay = new JournalReplay(options.replay, (input) =>
+        input.type === "input"
+          ? this.dispatch(input.event)
+          : this.interrupt(input.target)
+      );
+    } else {
+      // each run of a resumed session gets a journal of its own
+      const run = resumed ? `${this.sessionId}.${timestamp}` : this.sessionId;
+      this.journalFile = join(logDir, "journal", `${run}.jsonl`);
+      this.journal = new EffectJournal(new Logger(this.journalFile));
+      this.sessions = new SessionStore(join(logDir, "sessions"), this.logger);
+    }
+    this.runner = this.replay ?? this.effects;
+    this.metricsIntervalMs = options.metricsIntervalMs ?? 5000;
+    this.scheduler =
+      options.scheduler ??
+      new Scheduler(this.logger, {
+        metricsIntervalMs: this.metricsIntervalMs || 5000,
+      });
+    this.supervision = options.supervision ?? DEFAULT_SUPERVISION;
+    this.router = new Router({
+      crashed: (actor, err) => this.crashed(actor, err),
+      deadLetter: (letter) => this.deadLetter(letter),
+      // logged, not shown: a failing "ui" observer would see its own error
+      observerFailed: (err: any, topic) =>
+        this.logger
+          .append({
+            ts: Date.now(),
+            observerError: `${topic}: ${err?.message ?? String(err)}`,
+          })
+          .catch(() => {}),
+    });
+    const retry: RetryPolicies = {
+      effects: { ...DEFAULT_RETRY.effects, ...options.retry?.effects },
+      tools: { ...DEFAULT_RETRY.tools, ...options.retry?.tools },
+    };
+    this.tools = new ToolsAdapter(retry, this.scheduler.clock);
+    for (const port of options.tools ?? [
+      new FsPort(process.cwd()),
+      new HttpPort(),
+    ]) {
+      this.tools.register(port);
+    }
+    this.meter = new UsageMeter(
+      { ...DEFAULT_PRICES, ...options.prices },
+      options.maxCostUsd
+    );
+    let port =
+      options.llm ??
+      (options.replay
+        ? OFFLINE_LLM
+        : createLlmPort(options.provider ?? llmRoutingFromEnv(), this.logger));
+    if (options.llmCache && !options.replay) {
+      port = new CachingLlmPort(
+        port,
+        { dir: join(logDir, "llm-cache"), ...options.llmCache },
+        this.scheduler.clock,
+        this.logger
+      );
+    }
     this.llm = new LlmAdapter(
-      new OpenAIResponsesPort(apiKey, undefined, undefined, this.logger),
-      this.scheduler,
-      (e: any) => this.dispatch(e)
+      port,
+      retry.effects?.LlmGenerate,
+      this.scheduler.clock,
+      this.meter
     );
-    const submitEffect = (eff: Effect) => {
-      if (eff.kind === "LlmGenerate") this.llm.run(eff.prompt, eff.target);
-      else if (eff.kind === "ToolCall") this.tools.submit(eff);
-    };
+    this.effects
+      .register(
+        "LlmGenerate",
+        (eff, ctx) =>
+          eff.stream === false
+            ? this.llm.complete(eff, ctx)
+            : this.llm.stream(eff, ctx),
+        { taskId: (eff) => newId(eff.stream === false ? "llm-once" : "llm") }
+      )
+      .register("ToolCall", (eff, ctx) => this.tools.call(eff, ctx), {
+        taskId: (eff) => `tool-${eff.tool}-${Date.now()}`,
+      });
 
-    const builder = new BuilderAgent(
-      "agent#1",
-      submitEffect,
-      (prompt, target) => this.llm.runOnce(prompt, target), // non-streaming planner
-      onReplyUpdate
-    );
-    this.router.register(builder);
+    const builder = this.spawn("agent", (ctx) => new BuilderAgent(ctx));
     this.onReplyUpdate({
       kind: "session-start",
       sessionId: this.sessionId,
-      agentId: builder.id,
+      agentId: builder,
       at: Date.now(),
+      ...(resumed ? { resumed: true } : {}),
     });
     this.status = "idle";
+    // recorded input starts flowing once the scheduler runs
+    this.replayStep("replay-start", (replay) => replay.start());
+  }
+
+  /*
+    Replay bookkeeping runs as a task of its own so that actors have handled
+    a run's events before the input that followed them is delivered.
+  */
+  private replayStep(id: string, step: (replay: JournalReplay) => void) {
+    const replay = this.replay;
+    if (!replay) return;
+    this.scheduler.enqueue({
+      task: { id: newId(id), run: async () => step(replay) },
+      lane: "ui",
+      priority: "low",
+    });
+  }
+
+  /**
+   * Adds a runner for a new effect kind (declared by augmenting `EffectMap`).
+   * Actors can then submit effects of that kind like the built-in ones.
+   */
+  registerEffect<K extends EffectKind>(
+    kind: K,
+    runner: EffectRunner<K>,
+    options?: EffectRunOptions<K>
+  ): void {
+    this.effects.register(kind, runner, options);
+  }
+
+  /*
+    Schedules an effect on behalf of its target actor (the task's cancel
+    group). Events a runner emits while running are handled by `emit`;
+    `done` gets the returned events, once per run for recurring effects.
+  */
+  private enqueueEffect(
+    eff: Effect,
+    handlers: {
+      emit: (evt: Event | AgentUiEvent) => void;
+      done: (events: Event[]) => void;
+      fail: (err: unknown) => void;
+    }
+  ) {
+    if (!this.effects.has(eff.kind)) {
+      handlers.fail(new Error(`no runner registered for effect: ${eff.kind}`));
+      return;
+    }
+    const opts = this.effects.options(eff.kind);
+    const id = opts.taskId?.(eff) ?? newId(eff.kind);
+    const schedule = (eff as { schedule?: TaskSchedule }).schedule;
+    this.scheduler.enqueue({
+      task: {
+        id,
+        group: eff.target,
+        ...(opts.timeoutMs !== undefined ? { timeoutMs: opts.timeoutMs } : {}),
+        run: async (signal) => {
+          const record = this.journal?.begin(eff);
+          let events: Event[];
+          try {
+            const out = await this.runner.run(eff, {
+              sessionId: this.sessionId,
+              signal,
+              taskId: id,
+              emit: (evt) => {
+                record?.emit(evt);
+                handlers.emit(
+                  "kind" in evt ? { ...evt, actorId: eff.target } : evt
+                );
+              },
+            });
+            events = Array.isArray(out) ? out : [out];
+          } catch (err: any) {
+            record?.settle(
+              signal.aborted
+                ? { canceled: true }
+                : { ok: false, error: err?.message ?? String(err) }
+            );
+            handlers.fail(err);
+            this.replayStep("replay-settle", (replay) => replay.settle());
+            return;
+          }
+          record?.settle({ ok: true, events });
+          handlers.done(events);
+          this.replayStep("replay-settle", (replay) => replay.settle());
+        },
+        onCancel: handlers.fail,
+      },
+      lane: opts.lane ?? "domain",
+      priority: opts.priority ?? "medium",
+      ...schedule,
+    });
+  }
+
+  /** Fire-and-forget: everything the effect produces is dispatched. */
+  private submitEffect(eff: Effect) {
+    this.enqueueEffect(eff, {
+      emit: (evt) => this.dispatch(evt),
+      done: (events) => events.forEach((evt) => this.dispatch(evt)),
+      fail: (err: any) => {
+        if (isAbortError(err)) return;
+        this.dispatch({
+          kind: "error",
+          phase: "runtime",
+          message: `${eff.kind} failed: ${err?.message ?? String(err)}`,
+          actorId: eff.target,
+        });
+      },
+    });
+  }
+
+  /**
+   * Runs an effect and resolves with the events it returned instead of
+   * delivering them to their target; they are still logged and published
+   * to observers. Intermediate events are dispatched too, except for the
+   * domain events that `onEvent` takes.
+   */
+  perform(
+    eff: Effect,
+    opts: { onEvent?: (evt: Event) => void } = {}
+  ): Promise<Event[]> {
+    const { onEvent } = opts;
+    return new Promise((resolve, reject) =>
+      this.enqueueEffect(eff, {
+        emit: (evt) =>
+          onEvent && "type" in evt ? onEvent(evt) : this.dispatch(evt),
+        done: (events) => {
+          for (const evt of events) this.observe(evt);
+          resolve(events);
+        },
+        fail: reject,
+      })
+    );
+  }
+
+  // the caller holds the event, so its target is skipped
+  private observe(evt: Event) {
+    this.logger.append({ ts: Date.now(), event: evt }).catch(() => {});
+    this.router.publish(
+      evt.type,
+      evt,
+      new Set("target" in evt ? [evt.target] : [])
+    );
+  }
+
+  /** Starts a top-level actor named `<name>#<n>` and returns its id. */
+  spawn(
+    name: string,
+    create: (ctx: ActorContext) => Actor,
+    opts?: SpawnOptions
+  ): ActorId {
+    return this.spawnActor(name, create, undefined, opts);
+  }
+
+  /** Stops an actor and its descendants, canceling their in-flight work. */
+  stopActor(id: ActorId): void {
+    for (const actor of this.router.unregister(id)) {
+      this.scheduler.cancelGroup(actor.id, "stopped");
+      this.actorSpecs.delete(actor.id);
+      this.restarts.delete(actor.id);
+      actor.stopped?.();
+    }
+  }
+
+  /** Depth and throughput of each actor's mailbox. */
+  mailboxes(): Record<ActorId, MailboxSnapshot> {
+    return this.router.mailboxStats();
+  }
+
+  /** Listens for events that could not be delivered; returns unsubscribe. */
+  onDeadLetter(listener: (letter: DeadLetter) => void): () => void {
+    this.deadLetterListeners.add(listener);
+    return () => this.deadLetterListeners.delete(listener);
+  }
+
+  private spawnActor(
+    name: string,
+    create: (ctx: ActorContext) => Actor,
+    parent: ActorId | undefined,
+    opts: SpawnOptions = {}
+  ): ActorId {
+    const n = (this.spawned.get(name) ?? 0) + 1;
+    this.spawned.set(name, n);
+    const id = `${name}#${n}`;
+    const supervision = opts.supervision ?? DEFAULT_SUPERVISION;
+    this.actorSpecs.set(id, { create, parent, supervision });
+    const actor = create(this.contextFor(id, parent));
+    if (this.restored[id] !== undefined) actor.restore?.(this.restored[id]);
+    this.router.register(actor, parent, opts.mailbox);
+    return id;
+  }
+
+  /*
+    Supervision: the crashed actor's parent policy (the runtime's, for
+    top-level actors) decides what is restarted. Past the restart limit the
+    actor is given up on and the crash escalates to its parent; at the top
+    it is stopped for good.
+  */
+  private crashed(actor: Actor, err: any) {
+    // a stale incarnation failing after it was restarted or stopped
+    if (this.router.get(actor.id) !== actor) return;
+    const { id } = actor;
+    const parent = this.actorSpecs.get(id)?.parent;
+    const policy = parent
+      ? this.actorSpecs.get(parent)?.supervision ?? DEFAULT_SUPERVISION
+      : this.supervision;
+    const now = this.scheduler.clock.now();
+    const recent = (this.restarts.get(id) ?? []).filter(
+      (at) => now - at < policy.withinMs
+    );
+    const reason = err?.message ?? String(err);
+
+    if (recent.length >= policy.maxRestarts) {
+      this.dispatch({
+        kind: "error",
+        phase: "runtime",
+        message: `${id} crashed: ${reason} (gave up after ${recent.length} restarts)`,
+        actorId: id,
+      });
+      const supervisor = parent && this.router.get(parent);
+      if (supervisor) {
+        this.crashed(supervisor, new Error(`child ${id} kept crashing`));
+      } else {
+        this.stopActor(id);
+      }
+      return;
+    }
+
+    this.restarts.set(id, [...recent, now]);
+    this.dispatch({
+      kind: "error",
+      phase: "runtime",
+      message: `${id} crashed: ${reason} (restarting)`,
+      actorId: id,
+    });
+    const group =
+      policy.strategy === "one-for-all" ? this.router.children(parent) : [id];
+    for (const member of group) this.restartActor(member);
+  }
+
+  /** Replaces an actor with a fresh instance; its children are stopped. */
+  private restartActor(id: ActorId) {
+    const spec = this.actorSpecs.get(id);
+    const old = this.router.get(id);
+    if (!spec || !old) return;
+    for (const child of this.router.children(id)) this.stopActor(child);
+    this.scheduler.cancelGroup(id, "restarted");
+    old.stopped?.();
+    this.router.register(
+      spec.create(this.contextFor(id, spec.parent)),
+      spec.parent
+    );
+  }
+
+  private deadLetter(letter: DeadLetter) {
+    this.logger.append({ ts: Date.now(), deadLetter: letter }).catch(() => {});
+    for (const listener of this.deadLetterListeners) listener(letter);
+  }
+
+  private contextFor(self: ActorId, parent: ActorId | undefined) {
+    const ctx: ActorContext = {
+      self,
+      parent,
+      spawn: (name, create, opts) =>
+        this.spawnActor(name, create, self, opts),
+      stop: (id) => this.stopActor(id),
+      send: (to, body) => this.sendMessage(self, to, body),
+      ask: <Res>(to: ActorId, body: unknown, opts?: { timeoutMs?: number }) => {
+        const msgId = this.nextMsgId();
+        const reply = this.router.expectReply(msgId);
+        this.sendMessage(self, to, body, { msgId });
+        if (opts?.timeoutMs !== undefined) {
+          const clock = this.scheduler.clock;
+          const timer = clock.setTimer(() => {
+            const reason = new DOMException(
+              `no reply from ${to} within ${opts.timeoutMs}ms`,
+              "TimeoutError"
+            );
+            this.router.abandonReply(msgId, reason);
+          }, opts.timeoutMs);
+          reply.finally(() => clock.clearTimer(timer)).catch(() => {});
+        }
+        return reply as Promise<Res>;
+      },
+      reply: (msg, body) =>
+        this.sendMessage(self, msg.from, body, { inReplyTo: msg.msgId }),
+      submit: (eff) => this.submitEffect(eff),
+      perform: (eff, opts) => this.perform(eff, opts),
+      emit: (evt) => this.dispatch({ ...evt, actorId: self }),
+      subscribe: (topic) => this.router.subscribe(topic, self),
+      publish: (topic, body) =>
+        queueMicrotask(() =>
+          this.dispatch({ type: "Published", topic, from: self, body })
+        ),
+      checkpoint: () => this.checkpoint(),
+    };
+    return ctx;
+  }
+
+  /*
+    Saves the session with a snapshot of every actor that has one. Saves are
+    chained so an older snapshot never lands after a newer one.
+  */
+  private checkpoint() {
+    const sessions = this.sessions;
+    if (!sessions) return;
+    const actors: Record<ActorId, unknown> = {};
+    for (const id of this.router.ids()) {
+      const state = this.router.get(id)?.snapshot?.();
+      if (state !== undefined) actors[id] = state;
+    }
+    const snapshot: SessionSnapshot = {
+      sessionId: this.sessionId,
+      createdAt: this.createdAt,
+      updatedAt: Date.now(),
+      ...(this.title ? { title: this.title } : {}),
+      actors,
+    };
+    this.saving = this.saving
+      .then(() => sessions.save(snapshot))
+      .catch((err) =>
+        this.logger.error(`failed to save session: ${err?.message ?? err}`)
+      );
+  }
+
+  private nextMsgId() {
+    return `msg-${++this.msgSeq}`;
+  }
+
+  /*
+    Messages are delivered on a microtask rather than inline, so an actor
+    never re-enters its own handler by messaging itself or a child. Ones
+    nobody can receive end up as dead letters.
+  */
+  private sendMessage(
+    from: ActorId,
+    to: ActorId,
+    body: unknown,
+    ids: { msgId?: string; inReplyTo?: string } = {}
+  ) {
+    const msg: Event = {
+      type: "Message",
+      target: to,
+      from,
+      msgId: ids.msgId ?? this.nextMsgId(),
+      body,
+      ...(ids.inReplyTo ? { inReplyTo: ids.inReplyTo } : {}),
+    };
+    queueMicrotask(() => this.dispatch(msg));
   }
 
   static async init(
-    onReplyUpdate: (evt: AgentUiEvent) => void
+    onReplyUpdate: (evt: AgentUiEvent) => void,
+    options: RuntimeOptions = {}
   ): Promise<Runtime> {
-    const logDir = join(process.cwd(), "logs");
-    await mkdir(logDir, { recursive: true });
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const logFile = join(logDir, `runtime-${timestamp}.log`);
-    return new Runtime(onReplyUpdate, logFile);
+    const logDir = options.logDir ?? join(process.cwd(), "logs");
+    await mkdir(join(logDir, "journal"), { recursive: true });
+    const resumed = options.resume
+      ? await new SessionStore(join(logDir, "sessions")).load(options.resume)
+      : undefined;
+    return new Runtime(onReplyUpdate, logDir, options, resumed);
+  }
+
+  /** Sessions saved under `logDir`, most recent first. */
+  static listSessions(logDir?: string): Promise<SessionSummary[]> {
+    const dir = join(logDir ?? join(process.cwd(), "logs"), "sessions");
+    return new SessionStore(dir).list();
   }
 
+  getStatus() {
+    return this.status;
+  }
+
+  /** Starts (or restarts after stop()) processing queued work. */
   start(): void {
-    if (this.status === "running") return;
-    this.scheduler.start();
+    if (this.status !== "idle") return;
+    void this.scheduler.start();
+    if (!this.announced) {
+      this.announced = true;
+      this.dispatch({ type: "START", sessionId: this.sessionId });
+    }
+    if (this.metricsIntervalMs > 0) {
+      this.unsubscribeMetrics = this.scheduler.onMetrics((snapshot) =>
+        this.showUi({
+          kind: "metrics",
+          scheduler: snapshot,
+          mailboxes: this.mailboxes(),
+        })
+      );
+    }
     this.status = "running";
   }
 
+  /*
+    Stops the scheduler loop without dropping anything: queued tasks wait for
+    the next start(), in-flight ones finish in the background.
+  */
   stop(): void {
-    if (this.status !== "running") return;
+    if (this.status === "idle") return;
+    this.scheduler.resume();
     this.scheduler.stop();
+    this.unsubscribeMetrics?.();
+    this.unsubscribeMetrics = null;
     this.status = "idle";
   }
 
+  pause(): void {
+    if (this.status !== "running") return;
+    this.scheduler.pause();
+    this.status = "paused";
+  }
+
+  resume(): void {
+    if (this.status !== "paused") return;
+    this.scheduler.resume();
+    this.status = "running";
+  }
+
+  /** Current queue depth, in-flight tasks and task duration histograms. */
+  stats(): SchedulerSnapshot {
+    return this.scheduler.snapshot();
+  }
+
+  /** Tokens and cost of every model request this session. */
+  usage(): UsageTotals & { maxCostUsd?: number } {
+    const { maxCostUsd } = this.meter;
+    return {
+      ...this.meter.snapshot(),
+      ...(maxCostUsd !== undefined ? { maxCostUsd } : {}),
+    };
+  }
+
+  /*
+    Resolves once queued and in-flight work has finished and is on disk.
+    Stopped or paused, the queue cannot move, so only in-flight tasks are
+    waited for; queued ones stay for the next start() or resume().
+  */
+  async drain(): Promise<void> {
+    await this.scheduler.drain({ queued: this.status === "running" });
+    await this.journal?.flush();
+    await this.saving;
+  }
+
+  /*
+    Waits for outstanding work, then stops and starts the scheduler again.
+    From stopped or paused it waits for in-flight tasks only, then runs the
+    queue that was held back.
+  */
+  async restart(): Promise<void> {
+    await this.drain();
+    this.stop();
+    this.start();
+  }
+
+  /*
+    Aborts everything the target actor has in flight: the running LLM stream
+    and any queued or running tool calls. Their tasks report LlmCanceled (or
+    nothing, for tools) once the abort lands.
+  */
   interrupt(target: string): void {
+    this.journal?.interrupt(target);
+    this.scheduler.cancelGroup(target, "interrupted");
     const actor = this.router.get(target) as any;
     if (actor && typeof (actor as any).interrupt === "function") {
       (actor as any).interrupt();
     }
   }
 
+  /**
+   * Observes events by topic: an event type such as "ToolResult", the topic
+   * of a published event, "ui" for UI events, or "*" for all of them.
+   * Returns a function that unsubscribes.
+   */
+  subscribe(topic: string, observer: Observer): () => void {
+    return this.router.subscribe(topic, observer);
+  }
+
+  private showUi(evt: AgentUiEvent) {
+    this.onReplyUpdate(evt);
+    this.router.publish("ui", evt);
+  }
+
   dispatch(event: any): void {
     // Log all events (runtime Events + UI events like llm-start/llm-end)
     this.logger.append({ ts: Date.now(), event }).catch(() => {});
+    // user input is the only event from outside; effects journal the rest
+    if (event?.type === "UserInput") {
+      this.journal?.input(event);
+      this.title ??= event.text;
+    }
     // Forward UI events directly to the presentation callback
     if (event && typeof event === "object" && "kind" in event) {
-      this.onReplyUpdate(event as AgentUiEvent);
+      this.showUi(event as AgentUiEvent);
     }
     // Forward only internal runtime events (those with a 'type' field) to actors
     if (event && typeof event === "object" && "type" in event) {
@@ -0,0 +1,51 @@
+// runtime/effect-registry.ts
+
+import {
+  Effect,
+  EffectContext,
+  EffectKind,
+  EffectRegistry,
+  EffectRunner,
+  EffectRunOptions,
+} from "../effect.js";
+import { Event } from "../events.js";
+
+type Registration = {
+  runner: EffectRunner<any>;
+  options: EffectRunOptions<any>;
+};
+
+/*
+  Maps effect kinds to the runners that perform them. The runtime owns the
+  scheduling; a runner only does the work for one effect and returns the
+  events to dispatch.
+*/
+export class RunnerRegistry implements EffectRegistry {
+  private runners = new Map<EffectKind, Registration>();
+
+  register<K extends EffectKind>(
+    kind: K,
+    runner: EffectRunner<K>,
+    options: EffectRunOptions<K> = {}
+  ): this {
+    if (this.runners.has(kind)) {
+      throw new Error(`effect runner already registered: ${kind}`);
+    }
+    this.runners.set(kind, { runner, options });
+    return this;
+  }
+
+  has(kind: EffectKind): boolean {
+    return this.runners.has(kind);
+  }
+
+  options<K extends EffectKind>(kind: K): EffectRunOptions<K> {
+    return this.runners.get(kind)?.options ?? {};
+  }
+
+  async run(effect: Effect, args: EffectContext): Promise<Event | Event[]> {
+    const reg = this.runners.get(effect.kind);
+    if (!reg) throw new Error(`no runner registered for effect: ${effect.kind}`);
+    return reg.runner(effect, args);
+  }
+}
@@ -0,0 +1,225 @@
+// runtime/journal.ts
+
+import { readFile } from "node:fs/promises";
+import type { Effect, EffectContext, EffectRegistry } from "../effect.js";
+import type { Event } from "../events.js";
+import type { Logger } from "../logger.js";
+import type { AgentUiEvent } from "../ui-messages.js";
+
+export type EffectOutcome =
+  | { ok: true; events: Event[] }
+  | { ok: false; error: string }
+  | { canceled: true };
+
+/*
+  Inputs carry how many effects had started and settled, and how many events
+  effects had emitted, when they arrived, so a replay can hand them to the
+  actors at the same point.
+*/
+type Position = {
+  seq: number;
+  started: number;
+  settled: number;
+  emitted: number;
+};
+
+export type InputEntry = Position &
+  (
+    | { type: "input"; event: Event }
+    | { type: "interrupt"; target: string }
+  );
+
+export type EffectEntry = {
+  type: "effect";
+  seq: number;
+  /** `<target>/<kind>#<n>`: the n-th effect of that kind for that actor. */
+  key: string;
+  effect: Effect;
+  /** Everything the runner emitted while running, in order. */
+  emitted: Array<Event | AgentUiEvent>;
+  outcome: EffectOutcome;
+};
+
+export type JournalEntry = InputEntry | EffectEntry;
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReplayError";
+  }
+}
+
+/*
+  Actors issue their effects in a deterministic order, so counting effects
+  per actor and kind names the same effect in a recording and in its replay.
+*/
+class EffectKeys {
+  private counts = new Map<string, number>();
+
+  next(effect: Effect): string {
+    const base = `${effect.target}/${effect.kind}`;
+    const n = (this.counts.get(base) ?? 0) + 1;
+    this.counts.set(base, n);
+    return `${base}#${n}`;
+  }
+}
+
+/** One journal line per effect run and per external input, as JSONL. */
+export class EffectJournal {
+  private seq = 0;
+  private started = 0;
+  private settled = 0;
+  private emitted = 0;
+  private keys = new EffectKeys();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private sink: Logger) {}
+
+  input(event: Event): void {
+    this.write({ type: "input", event, ...this.position() });
+  }
+
+  interrupt(target: string): void {
+    this.write({ type: "interrupt", target, ...this.position() });
+  }
+
+  /*
+    Call when the effect starts running. Pass what the runner emits to
+    `emit`, and its result to `settle` once it ends.
+  */
+  begin(effect: Effect) {
+    const key = this.keys.next(effect);
+    const emitted: Array<Event | AgentUiEvent> = [];
+    this.started++;
+    return {
+      emit: (evt: Event | AgentUiEvent) => {
+        emitted.push(evt);
+        this.emitted++;
+      },
+      settle: (outcome: EffectOutcome) => {
+        this.settled++;
+        this.write({
+          type: "effect",
+          seq: ++this.seq,
+          key,
+          effect,
+          emitted,
+          outcome,
+        });
+      },
+    };
+  }
+
+  private position(): Position {
+    return {
+      seq: ++this.seq,
+      started: this.started,
+      settled: this.settled,
+      emitted: this.emitted,
+    };
+  }
+
+  /** Resolves once every entry so far is on disk. */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  // chained so lines land in the order they were written; a failed write
+  // loses its line only, not the ones after it
+  private write(entry: JournalEntry) {
+    this.writes = this.writes
+      .then(() => this.sink.append(entry))
+      .catch((err) =>
+        this.sink.error(
+          `[journal] failed to write entry ${entry.seq}: ` +
+            (err?.message ?? err)
+        )
+      );
+  }
+}
+
+export async function readJournal(file: string): Promise<JournalEntry[]> {
+  const text = await readFile(file, "utf8");
+  return text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as JournalEntry);
+}
+
+/*
+  Plays a journal back: effects return their recorded events instead of
+  reaching a model or a tool, and recorded inputs are fed to `deliver` at
+  the position they first arrived at.
+*/
+export class JournalReplay implements EffectRegistry {
+  private effects = new Map<string, EffectEntry>();
+  private inputs: InputEntry[] = [];
+  private keys = new EffectKeys();
+  private started = 0;
+  private settled = 0;
+  private emitted = 0;
+
+  constructor(
+    entries: JournalEntry[],
+    private deliver: (input: InputEntry) => void
+  ) {
+    for (const entry of entries) {
+      if (entry.type === "effect") this.effects.set(entry.key, entry);
+      else this.inputs.push(entry);
+    }
+  }
+
+  /** Recorded inputs that have not been delivered yet. */
+  get pending(): number {
+    return this.inputs.length;
+  }
+
+  /** Delivers the inputs that arrived before any effect ran. */
+  start(): void {
+    this.pump();
+  }
+
+  async run(effect: Effect, ctx: EffectContext): Promise<Event | Event[]> {
+    const key = this.keys.next(effect);
+    this.started++;
+    const entry = this.effects.get(key);
+    if (!entry) throw new ReplayError(`journal has no entry for ${key}`);
+    if (JSON.stringify(entry.effect) !== JSON.stringify(effect)) {
+      throw new ReplayError(`${key} differs from the recorded effect`);
+    }
+    for (const evt of entry.emitted) {
+      this.pump();
+      ctx.emit(evt);
+      this.emitted++;
+    }
+    this.pump();
+    const { outcome } = entry;
+    if ("canceled" in outcome) {
+      // canceled while recording: wait for the replayed cancel to land
+      await new Promise((resolve) => {
+        if (ctx.signal.aborted) resolve(null);
+        ctx.signal.addEventListener("abort", resolve, { once: true });
+      });
+      throw ctx.signal.reason;
+    }
+    if (!outcome.ok) throw new Error(outcome.error);
+    return outcome.events;
+  }
+
+  /** Call once the events of a run have been handled. */
+  settle(): void {
+    this.settled++;
+    this.pump();
+  }
+
+  private pump() {
+    while (
+      this.inputs[0] &&
+      this.inputs[0].started <= this.started &&
+      this.inputs[0].settled <= this.settled &&
+      this.inputs[0].emitted <= this.emitted
+    ) {
+      this.deliver(this.inputs.shift()!);
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Logger } from "../logger.js";
+import { SessionStore } from "./session-store.js";
+
+describe("SessionStore", () => {
+  test("lists the readable sessions and skips broken files", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "thom-sessions-"));
+    const warnings: string[] = [];
+    const logger = new (class extends Logger {
+      override warn(message: string) {
+        warnings.push(message);
+      }
+    })("");
+    const store = new SessionStore(dir, logger);
+    await store.save({
+      sessionId: "ok",
+      createdAt: 1,
+      updatedAt: 2,
+      actors: {},
+    });
+    await writeFile(join(dir, "torn.json"), '{"sessionId": "to', "utf8");
+
+    expect(await store.list()).toEqual([
+      { sessionId: "ok", createdAt: 1, updatedAt: 2 },
+    ]);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toStartWith("skipping session torn.json");
+  });
+});
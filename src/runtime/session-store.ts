@@ -0,0 +1,81 @@
+// runtime/session-store.ts
+
+import { mkdir, readdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { ActorId } from "../actor.js";
+import { Logger } from "../logger.js";
+
+/** Everything needed to pick a session up again after the CLI exits. */
+export type SessionSnapshot = {
+  sessionId: string;
+  /** Epoch millis of the session's first run. */
+  createdAt: number;
+  updatedAt: number;
+  /** First user input of the session, for listings. */
+  title?: string;
+  /** State of every actor that implements `snapshot()`, by id. */
+  actors: Record<ActorId, unknown>;
+};
+
+export type SessionSummary = Omit<SessionSnapshot, "actors">;
+
+export class SessionNotFoundError extends Error {
+  constructor(readonly sessionId: string) {
+    super(`no saved session: ${sessionId}`);
+    this.name = "SessionNotFoundError";
+  }
+}
+
+// session ids become file names; anything else could escape the directory
+const SESSION_ID = /^[\w.-]+$/;
+
+/** One JSON file per session under `<logDir>/sessions`. */
+export class SessionStore {
+  constructor(readonly dir: string, private logger?: Logger) {}
+
+  async save(snapshot: SessionSnapshot): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const file = this.file(snapshot.sessionId);
+    // write then rename, so a crash mid-write keeps the previous snapshot
+    await writeFile(`${file}.tmp`, JSON.stringify(snapshot), "utf8");
+    await rename(`${file}.tmp`, file);
+  }
+
+  async load(sessionId: string): Promise<SessionSnapshot> {
+    try {
+      const text = await readFile(this.file(sessionId), "utf8");
+      return JSON.parse(text) as SessionSnapshot;
+    } catch (err: any) {
+      if (err?.code === "ENOENT") throw new SessionNotFoundError(sessionId);
+      throw err;
+    }
+  }
+
+  /**
+   * Saved sessions, most recently updated first. Files that cannot be read,
+   * e.g. truncated by a crash, are skipped with a warning.
+   */
+  async list(): Promise<SessionSummary[]> {
+    const names = await readdir(this.dir).catch(() => [] as string[]);
+    const sessions: SessionSummary[] = [];
+    for (const name of names) {
+      if (!name.endsWith(".json")) continue;
+      try {
+        const { actors: _, ...summary } = await this.load(name.slice(0, -5));
+        sessions.push(summary);
+      } catch (err: any) {
+        const message = `skipping session ${name}: ${err?.message ?? err}`;
+        if (this.logger) this.logger.warn(message);
+        else console.warn(`[session-store] ${message}`);
+      }
+    }
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  private file(sessionId: string) {
+    if (!SESSION_ID.test(sessionId)) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    return join(this.dir, `${sessionId}.json`);
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, expect, test } from "bun:test";
+import type { ToolPort } from "../drivers/tools-port.js";
+import { SchedulerDriver } from "../testing/scheduler-driver.js";
+import { ToolsAdapter } from "./tools-adapter.js";
+
+const call = { kind: "ToolCall", tool: "http", args: {}, target: "a" } as const;
+
+function run(
+  driver: SchedulerDriver,
+  tools: ToolsAdapter,
+  seen: any[],
+  timeoutMs?: number
+) {
+  driver.scheduler.enqueue({
+    task: {
+      id: "tool-http",
+      group: call.target,
+      ...(timeoutMs !== undefined ? { timeoutMs } : {}),
+      run: async (signal) => {
+        const out = await tools.call(call, {
+          sessionId: "s",
+          signal,
+          taskId: "tool-http",
+          emit: (e) => seen.push(e),
+        });
+        seen.push(...out);
+      },
+    },
+    lane: "domain",
+    priority: "medium",
+  });
+}
+
+describe("ToolsAdapter", () => {
+  test("retries retryable failures and reports the final result", async () => {
+    const driver = SchedulerDriver.create();
+    const seen: any[] = [];
+    let calls = 0;
+    const http: ToolPort = {
+      name: "http",
+      run: async () =>
+        ++calls < 3
+          ? { ok: false, data: "503", retryable: true }
+          : { ok: true, data: "body" },
+    };
+    const tools = new ToolsAdapter(
+      {
+        tools: {
+          http: { maxAttempts: 5, baseDelayMs: 10, maxDelayMs: 10, jitter: 0 },
+        },
+      },
+      driver.scheduler.clock
+    );
+    tools.register(http);
+
+    run(driver, tools, seen);
+    await driver.runUntilIdle();
+    expect(seen.map((e) => e.kind ?? e.type)).toEqual([
+      "retry",
+      "retry",
+      "ToolResult",
+    ]);
+    expect(seen.map((e) => e.attempt).slice(0, 2)).toEqual([2, 3]);
+    expect(seen[2]).toMatchObject({ ok: true, data: "body" });
+  });
+
+  test("drops the result of a call canceled by its target", async () => {
+    const driver = SchedulerDriver.create();
+    const seen: any[] = [];
+    const tools = new ToolsAdapter({}, driver.scheduler.clock);
+    tools.register({
+      name: "http",
+      run: async (_args, opts) =>
+        new Promise((resolve) =>
+          opts?.signal?.addEventListener("abort", () =>
+            resolve({ ok: false, data: "aborted" })
+          )
+        ),
+    });
+
+    run(driver, tools, seen);
+    await driver.step();
+    driver.scheduler.cancelGroup("a");
+    await driver.runUntilIdle();
+    expect(seen).toEqual([]);
+  });
+
+  test("reports a timed-out call as a failed result", async () => {
+    const driver = SchedulerDriver.create();
+    const seen: any[] = [];
+    const tools = new ToolsAdapter({}, driver.scheduler.clock);
+    tools.register({
+      name: "http",
+      run: async (_args, opts) =>
+        new Promise((resolve) =>
+          opts?.signal?.addEventListener("abort", () =>
+            resolve({ ok: false, data: "aborted" })
+          )
+        ),
+    });
+
+    run(driver, tools, seen, 100);
+    await driver.step();
+    await driver.advance(100);
+    await driver.runUntilIdle();
+    expect(seen).toEqual([
+      {
+        type: "ToolResult",
+        target: "a",
+        tool: "http",
+        ok: false,
+        data: "timed out: task tool-http timed out after 100ms",
+      },
+    ]);
+  });
+});
@@ -1,48 +1,89 @@
 // runtime/tools-adapter.ts
 
-import { ToolPort } from "../drivers/tools-port.js";
-import { Effect } from "../effect.js";
+import { Clock, systemClock } from "../clock.js";
+import { ToolPort, ToolResult } from "../drivers/tools-port.js";
+import type { Effect, EffectContext } from "../effect.js";
 import { Event } from "../events.js";
-import { Scheduler } from "../scheduler.js";
+import { RetryPolicies, withRetry } from "../retry.js";
+
+/** Carries a failed-but-retryable tool result through `withRetry`. */
+class ToolFailure extends Error {
+  readonly retryable = true;
+  readonly retryAfterMs: number | undefined;
+  constructor(readonly result: ToolResult) {
+    super(result.data.slice(0, 200) || "tool failed");
+    this.retryAfterMs = result.retryAfterMs;
+  }
+}
+
+function timedOut(signal: AbortSignal) {
+  return signal.reason?.name === "TimeoutError";
+}
 
 export class ToolsAdapter {
   private registry = new Map<string, ToolPort>();
   constructor(
-    private scheduler: Scheduler,
-    private dispatch: (e: Event) => void
+    private retry: RetryPolicies = {},
+    private clock: Clock = systemClock
   ) {}
   register(port: ToolPort) {
     this.registry.set(port.name, port);
   }
-  submit(eff: Effect) {
-    if (eff.kind !== "ToolCall") return;
+
+  /** Effect runner for `ToolCall`. */
+  async call(eff: Effect<"ToolCall">, ctx: EffectContext): Promise<Event[]> {
+    const { signal } = ctx;
     const tool = this.registry.get(eff.tool);
     if (!tool) {
-      this.dispatch({
+      return [
+        {
+          type: "ToolResult",
+          target: eff.target,
+          tool: eff.tool,
+          ok: false,
+          data: "unknown tool",
+        },
+      ];
+    }
+    const policy = this.retry.tools?.[eff.tool] ?? this.retry.effects?.ToolCall;
+    let out = await withRetry(
+      async () => {
+        const res = await tool.run(eff.args, { signal });
+        if (!res.ok && res.retryable) throw new ToolFailure(res);
+        return res;
+      },
+      policy,
+      {
+        signal,
+        clock: this.clock,
+        onRetry: (info) =>
+          ctx.emit({
+            kind: "retry",
+            target: eff.target,
+            source: "tool",
+            requestId: ctx.taskId,
+            ...info,
+          }),
+      }
+    ).catch((err): ToolResult => {
+      if (err instanceof ToolFailure) return err.result;
+      if (timedOut(signal)) return { ok: false, data: "" };
+      throw err;
+    });
+    if (signal.aborted) {
+      // the caller was interrupted; nobody is waiting for this result
+      if (!timedOut(signal)) return [];
+      // a timeout is the tool's failure: the planner waits for its outcome
+      out = { ok: false, data: `timed out: ${signal.reason.message}` };
+    }
+    return [
+      {
         type: "ToolResult",
         target: eff.target,
         tool: eff.tool,
-        ok: false,
-        data: "unknown tool",
-      });
-      return;
-    }
-    this.scheduler.enqueue({
-      task: {
-        id: `tool-${eff.tool}-${Date.now()}`,
-        run: async () => {
-          const out = await tool.run(eff.args);
-          this.dispatch({
-            type: "ToolResult",
-            target: eff.target,
-            tool: eff.tool,
-            ok: out.ok,
-            data: out.data,
-          });
-        },
+        ok: out.ok,
+        data: out.data,
       },
-      lane: "domain",
-      priority: "medium",
-    });
+    ];
   }
 }
@@ -1,6 +1,8 @@
 import { describe, test, expect } from "bun:test";
 import { Scheduler } from "./scheduler.js";
 import { Logger } from "./logger.js";
+import { settle } from "./testing/scheduler-driver.js";
+import { VirtualClock } from "./testing/virtual-clock.js";
 
 // helper: fail if `p` doesn’t resolve in `ms`
 function withTimeout<T>(p: Promise<T>, ms = 200): Promise<T> {
@@ -41,3 +43,440 @@ describe("Scheduler race conditions", () => {
     expect(true).toBe(true); // reached means the task ran
   });
 });
+
+describe("Scheduler concurrency", () => {
+  test("a long-running task does not block tasks queued behind it", async () => {
+    const scheduler = new Scheduler(new Logger(""));
+    let releaseSlow!: () => void;
+    const slowGate = new Promise<void>((res) => (releaseSlow = res));
+    let fastResolve!: () => void;
+    const fastRan = new Promise<void>((res) => (fastResolve = res));
+
+    scheduler.enqueue({
+      task: { id: "slow", run: () => slowGate },
+      priority: "medium",
+      lane: "domain",
+    });
+    scheduler.enqueue({
+      task: { id: "fast", run: () => fastResolve() },
+      priority: "medium",
+      lane: "domain",
+    });
+    void scheduler.start();
+
+    await withTimeout(fastRan);
+    releaseSlow();
+    scheduler.stop();
+  });
+
+  test("respects the per-lane cap and starts tasks in lane/priority order", async () => {
+    const scheduler = new Scheduler(new Logger(""), {
+      concurrency: { lanes: { domain: 1 } },
+    });
+    const order: string[] = [];
+    const gates = new Map<string, () => void>();
+    const task = (id: string) => ({
+      id,
+      run: () =>
+        new Promise<void>((res) => {
+          order.push(id);
+          gates.set(id, res);
+        }),
+    });
+
+    scheduler.enqueue({ task: task("low"), priority: "low", lane: "domain" });
+    scheduler.enqueue({ task: task("high"), priority: "high", lane: "domain" });
+    scheduler.enqueue({ task: task("ui"), priority: "low", lane: "ui" });
+    void scheduler.start();
+    await Bun.sleep(5);
+
+    // `ui` has its own slot; domain only runs one task at a time
+    expect(order).toEqual(["high", "ui"]);
+    gates.get("high")!();
+    await Bun.sleep(5);
+    expect(order).toEqual(["high", "ui", "low"]);
+
+    for (const release of gates.values()) release();
+    scheduler.stop();
+  });
+});
+
+describe("Scheduler cancellation", () => {
+  test("cancel() drops a queued task and aborts a running one", async () => {
+    const scheduler = new Scheduler(new Logger(""), {
+      concurrency: { total: 1 },
+    });
+    let aborted!: () => void;
+    const abortSeen = new Promise<void>((res) => (aborted = res));
+    let queuedRan = false;
+
+    scheduler.enqueue({
+      task: {
+        id: "running",
+        run: (signal) =>
+          new Promise<void>((res) =>
+            signal.addEventListener("abort", () => {
+              aborted();
+              res();
+            })
+          ),
+      },
+      priority: "high",
+      lane: "domain",
+    });
+    scheduler.enqueue({
+      task: { id: "queued", run: () => void (queuedRan = true) },
+      priority: "low",
+      lane: "domain",
+    });
+    void scheduler.start();
+    await Bun.sleep(5);
+
+    expect(scheduler.cancel("queued")).toBe(1);
+    expect(scheduler.cancel("running")).toBe(1);
+    await withTimeout(abortSeen);
+    await Bun.sleep(5);
+    expect(queuedRan).toBe(false);
+    scheduler.stop();
+  });
+
+  test("cancelGroup() only touches tasks in that group", async () => {
+    const scheduler = new Scheduler(new Logger(""));
+    const signals = new Map<string, AbortSignal>();
+    const task = (id: string, group: string) => ({
+      id,
+      group,
+      run: (signal: AbortSignal) =>
+        new Promise<void>((res) => {
+          signals.set(id, signal);
+          signal.addEventListener("abort", () => res());
+        }),
+    });
+    scheduler.enqueue({
+      task: task("a", "s1"),
+      priority: "high",
+      lane: "domain",
+    });
+    scheduler.enqueue({
+      task: task("b", "s2"),
+      priority: "high",
+      lane: "domain",
+    });
+    void scheduler.start();
+    await Bun.sleep(5);
+
+    expect(scheduler.cancelGroup("s1")).toBe(1);
+    expect(signals.get("a")!.aborted).toBe(true);
+    expect(signals.get("b")!.aborted).toBe(false);
+    scheduler.cancelGroup("s2");
+    scheduler.stop();
+  });
+
+  test("timeoutMs aborts the task signal with a TimeoutError", async () => {
+    const scheduler = new Scheduler(new Logger(""));
+    let reason: any;
+    let done!: () => void;
+    const finished = new Promise<void>((res) => (done = res));
+    scheduler.enqueue({
+      task: {
+        id: "slow",
+        timeoutMs: 10,
+        run: (signal) =>
+          new Promise<void>((res) =>
+            signal.addEventListener("abort", () => {
+              reason = signal.reason;
+              res();
+              done();
+            })
+          ),
+      },
+      priority: "medium",
+      lane: "domain",
+    });
+    void scheduler.start();
+
+    await withTimeout(finished);
+    expect(reason?.name).toBe("TimeoutError");
+    scheduler.stop();
+  });
+});
+
+describe("Scheduler delayed and recurring tasks", () => {
+  test("runAt holds a task until the clock reaches it", async () => {
+    const clock = new VirtualClock(1_000);
+    const scheduler = new Scheduler(new Logger(""), { clock });
+    const runs: number[] = [];
+    void scheduler.start();
+    scheduler.enqueue({
+      task: { id: "later", run: () => void runs.push(clock.now()) },
+      priority: "medium",
+      lane: "domain",
+      runAt: 31_000,
+    });
+
+    clock.advance(29_999);
+    await settle();
+    expect(runs).toEqual([]);
+    clock.advance(1);
+    await settle();
+    expect(runs).toEqual([31_000]);
+    scheduler.stop();
+  });
+
+  test("every repeats until canceled", async () => {
+    const clock = new VirtualClock();
+    const scheduler = new Scheduler(new Logger(""), { clock });
+    const runs: number[] = [];
+    void scheduler.start();
+    scheduler.enqueue({
+      task: { id: "poll", run: () => void runs.push(clock.now()) },
+      priority: "low",
+      lane: "domain",
+      every: 5 * 60_000,
+    });
+
+    for (let i = 0; i < 3; i++) {
+      clock.advance(5 * 60_000);
+      await settle();
+    }
+    expect(runs).toEqual([300_000, 600_000, 900_000]);
+
+    expect(scheduler.cancel("poll")).toBe(1);
+    clock.advance(5 * 60_000);
+    await settle();
+    expect(runs.length).toBe(3);
+    scheduler.stop();
+  });
+
+  test("cron schedules on matching minutes", async () => {
+    const start = new Date(2024, 0, 1, 10, 0).getTime();
+    const clock = new VirtualClock(start);
+    const scheduler = new Scheduler(new Logger(""), { clock });
+    const runs: Date[] = [];
+    void scheduler.start();
+    scheduler.enqueue({
+      task: { id: "cron", run: () => void runs.push(new Date(clock.now())) },
+      priority: "medium",
+      lane: "domain",
+      cron: "*/15 * * * *",
+    });
+
+    for (let i = 0; i < 4; i++) {
+      clock.advance(15 * 60_000);
+      await settle();
+    }
+    expect(runs.map((d) => `${d.getHours()}:${d.getMinutes()}`)).toEqual([
+      "10:15",
+      "10:30",
+      "10:45",
+      "11:0",
+    ]);
+    scheduler.stop();
+  });
+});
+
+describe("Scheduler fairness", () => {
+  /*
+    Keeps exactly one `high` (or `domain`) task queued at all times: every run
+    advances the clock by 10ms and enqueues its successor, for up to 200 runs.
+    Resolves with the position at which the probe task ran, or -1.
+  */
+  function underLoad(
+    options: ConstructorParameters<typeof Scheduler>[1],
+    probe: { priority: "high" | "medium" | "low"; lane: "domain" | "ui" }
+  ) {
+    const clock = new VirtualClock();
+    const scheduler = new Scheduler(new Logger(""), {
+      clock,
+      concurrency: { total: 1 },
+      ...options,
+    });
+    const order: string[] = [];
+    return new Promise<number>((resolve) => {
+      const finish = () => {
+        scheduler.stop();
+        resolve(order.indexOf("probe"));
+      };
+      let n = 0;
+      const hot = () => ({
+        id: `hot-${n}`,
+        run: () => {
+          order.push(`hot-${n}`);
+          clock.advance(10);
+          if (++n >= 200) return finish();
+          scheduler.enqueue({ task: hot(), priority: "high", lane: "domain" });
+        },
+      });
+      scheduler.enqueue({
+        task: {
+          id: "probe",
+          run: () => {
+            order.push("probe");
+            finish();
+          },
+        },
+        ...probe,
+      });
+      scheduler.enqueue({ task: hot(), priority: "high", lane: "domain" });
+      void scheduler.start();
+    });
+  }
+
+  test("strict ordering starves low priority under constant load", async () => {
+    const at = await underLoad({}, { priority: "low", lane: "domain" });
+    expect(at).toBe(-1);
+  });
+
+  test("priority aging lets a low-priority task finish", async () => {
+    const at = await underLoad(
+      { fairness: { agingMs: 20 } },
+      { priority: "low", lane: "domain" }
+    );
+    expect(at).toBeGreaterThan(0);
+    expect(at).toBeLessThan(10);
+  });
+
+  test("maxWaitMs promotes a task that waited too long", async () => {
+    const at = await underLoad(
+      { fairness: { maxWaitMs: 50 } },
+      { priority: "low", lane: "domain" }
+    );
+    expect(at).toBe(5);
+  });
+
+  test("weighted round-robin gives the ui lane its share", async () => {
+    const at = await underLoad(
+      { fairness: { laneWeights: { domain: 3, ui: 1 } } },
+      { priority: "low", lane: "ui" }
+    );
+    expect(at).toBeGreaterThan(0);
+    expect(at).toBeLessThan(4);
+  });
+});
+
+describe("Scheduler lifecycle", () => {
+  test("pause() holds queued work until resume()", async () => {
+    const scheduler = new Scheduler(new Logger(""));
+    let ran = false;
+    scheduler.pause();
+    void scheduler.start();
+    scheduler.enqueue({
+      task: { id: "t", run: () => void (ran = true) },
+      priority: "medium",
+      lane: "domain",
+    });
+    await settle();
+    expect(ran).toBe(false);
+
+    scheduler.resume();
+    await withTimeout(scheduler.drain());
+    expect(ran).toBe(true);
+    scheduler.stop();
+  });
+
+  test("drain() waits for queued and in-flight tasks", async () => {
+    const scheduler = new Scheduler(new Logger(""), {
+      concurrency: { total: 1 },
+    });
+    const done: string[] = [];
+    for (const id of ["a", "b", "c"]) {
+      scheduler.enqueue({
+        task: {
+          id,
+          run: async () => {
+            await Bun.sleep(2);
+            done.push(id);
+          },
+        },
+        priority: "medium",
+        lane: "domain",
+      });
+    }
+    void scheduler.start();
+    await withTimeout(scheduler.drain());
+    expect(done).toEqual(["a", "b", "c"]);
+    scheduler.stop();
+  });
+
+  test("start() after stop() resumes with the work still queued", async () => {
+    const scheduler = new Scheduler(new Logger(""));
+    const ran: string[] = [];
+    void scheduler.start();
+    scheduler.stop();
+    scheduler.enqueue({
+      task: { id: "kept", run: () => void ran.push("kept") },
+      priority: "medium",
+      lane: "domain",
+    });
+    await settle();
+    expect(ran).toEqual([]);
+
+    void scheduler.start();
+    await withTimeout(scheduler.drain());
+    expect(ran).toEqual(["kept"]);
+    scheduler.stop();
+  });
+});
+
+describe("Scheduler introspection", () => {
+  test("snapshot() reports queue depth, in-flight tasks and durations", async () => {
+    const clock = new VirtualClock();
+    const scheduler = new Scheduler(new Logger(""), {
+      clock,
+      concurrency: { total: 1 },
+    });
+    let release!: () => void;
+    scheduler.enqueue({
+      task: {
+        id: "llm-100-abc",
+        group: "agent#1",
+        run: () => new Promise<void>((res) => (release = res)),
+      },
+      priority: "medium",
+      lane: "domain",
+    });
+    scheduler.enqueue({
+      task: { id: "tool-fs-101", run: () => {} },
+      priority: "low",
+      lane: "domain",
+    });
+    void scheduler.start();
+    await settle();
+    clock.advance(120);
+
+    const busy = scheduler.snapshot();
+    expect(busy.queued.domain).toEqual({ high: 0, medium: 0, low: 1 });
+    expect(busy.inFlight).toEqual([
+      {
+        id: "llm-100-abc",
+        group: "agent#1",
+        lane: "domain",
+        priority: "medium",
+        startedAt: 0,
+        ageMs: 120,
+      },
+    ]);
+
+    release();
+    await withTimeout(scheduler.drain());
+    const idle = scheduler.snapshot();
+    expect(idle.inFlight).toEqual([]);
+    expect(Object.keys(idle.durations).sort()).toEqual(["llm-", "tool-fs-"]);
+    expect(idle.durations["llm-"]!.maxMs).toBe(120);
+    scheduler.stop();
+  });
+
+  test("onMetrics() delivers periodic snapshots until unsubscribed", () => {
+    const clock = new VirtualClock();
+    const scheduler = new Scheduler(new Logger(""), {
+      clock,
+      metricsIntervalMs: 1000,
+    });
+    const seen: number[] = [];
+    const off = scheduler.onMetrics((s) => seen.push(s.at));
+    clock.advance(3000);
+    off();
+    clock.advance(3000);
+    expect(seen).toEqual([1000, 2000, 3000]);
+  });
+});
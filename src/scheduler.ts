@@ -1,14 +1,123 @@
+import { Clock, systemClock } from "./clock.js";
+import { CronSchedule, nextCronTime, parseCron } from "./cron.js";
 import { Logger } from "./logger.js";
+import { Histogram, HistogramSnapshot, taskPrefix } from "./metrics.js";
 
-type Task = {
+export type Task = {
   id: string;
-  run: () => void | Promise<void>; // allow async
+  /** Cancellation group shared by related tasks, e.g. a session or actor id. */
+  group?: string;
+  /** Deadline in ms, measured from when the task starts running. */
+  timeoutMs?: number;
+  run: (signal: AbortSignal) => void | Promise<void>; // allow async
+  /** Called instead of `run` when the task is canceled while still queued. */
+  onCancel?: (reason: unknown) => void;
+};
+
+type Queued = {
+  task: Task;
+  enqueuedAt: number;
+};
+
+type Running = {
+  task: Task;
+  controller: AbortController;
+  lane: Lane;
+  priority: Prio;
+  startedAt: number;
+};
+
+/** Point-in-time view of the scheduler, safe to serialize. */
+export type SchedulerSnapshot = {
+  at: number;
+  status: "running" | "idle" | "stopped";
+  paused: boolean;
+  /** Queue depth per lane and priority. */
+  queued: Record<Lane, Record<Prio, number>>;
+  /** Delayed or recurring tasks waiting for their due time. */
+  scheduled: number;
+  inFlight: Array<{
+    id: string;
+    group?: string;
+    lane: Lane;
+    priority: Prio;
+    startedAt: number;
+    ageMs: number;
+  }>;
+  /** Completed task durations keyed by task-id prefix (see `taskPrefix`). */
+  durations: Record<string, HistogramSnapshot>;
+};
+
+/**
+ * When a task should run. With none of these set the task runs as soon as
+ * possible. `every`/`cron` repeat until the task is canceled; the first run is
+ * at `runAt` if given, otherwise one interval (or cron match) from now.
+ */
+export type TaskSchedule = {
+  /** Epoch ms (per the scheduler clock) of the first run. */
+  runAt?: number;
+  /** Repeat interval in ms. */
+  every?: number;
+  /** 5-field cron expression, evaluated in local time. */
+  cron?: string;
+};
+
+type Timer = {
+  dueAt: number;
+  task: Task;
+  lane: Lane;
+  priority: Prio;
+  every?: number;
+  cron?: CronSchedule;
 };
 
 const LANES = ["domain", "ui"] as const;
 const PRIOS = ["high", "medium", "low"] as const;
-type Lane = (typeof LANES)[number];
-type Prio = (typeof PRIOS)[number];
+export type Lane = (typeof LANES)[number];
+export type Prio = (typeof PRIOS)[number];
+
+/*
+  Caps on how many tasks may run at once. A task only starts when its lane,
+  its priority and the scheduler as a whole are all below their cap, so e.g.
+  a streaming LLM call in `domain` no longer blocks tool calls or `ui` work.
+*/
+export type ConcurrencyLimits = {
+  total: number;
+  lanes: Record<Lane, number>;
+  priorities: Record<Prio, number>;
+};
+
+/*
+  Without fairness options the scheduler is strict: `domain` drains before
+  `ui`, and `high` before `medium` before `low`. Under sustained load that can
+  starve the later queues, so each of these relaxes the order differently.
+*/
+export type FairnessOptions = {
+  /** A waiting task is treated one priority level higher per `agingMs`. */
+  agingMs?: number;
+  /** A task waiting this long starts before anything else (oldest first). */
+  maxWaitMs?: number;
+  /** Weighted round-robin between lanes, e.g. `{ domain: 3, ui: 1 }`. */
+  laneWeights?: Record<Lane, number>;
+};
+
+export type SchedulerOptions = {
+  clock?: Clock;
+  /** How often `onMetrics` listeners receive a snapshot. Defaults to 5s. */
+  metricsIntervalMs?: number;
+  concurrency?: {
+    total?: number;
+    lanes?: Partial<Record<Lane, number>>;
+    priorities?: Partial<Record<Prio, number>>;
+  };
+  fairness?: FairnessOptions;
+};
+
+const DEFAULT_CONCURRENCY: ConcurrencyLimits = {
+  total: 8,
+  lanes: { domain: 4, ui: 4 },
+  priorities: { high: Infinity, medium: Infinity, low: Infinity },
+};
 
 /*
   There is an edge case where the notifier is scheduled to sleep but an incoming task is added to the queue
@@ -38,34 +147,135 @@ class Notifier {
 export class Scheduler {
   private notifier;
   private logger?: Logger;
+  readonly clock: Clock;
+  // delayed and recurring tasks, ordered by dueAt
+  private timers: Timer[] = [];
+  private timerHandle: unknown = null;
   private state: {
     status: "running" | "idle" | "stopped";
   };
 
   private queue: {
     domain: {
-      high: Array<Task>;
-      medium: Array<Task>;
-      low: Array<Task>;
+      high: Array<Queued>;
+      medium: Array<Queued>;
+      low: Array<Queued>;
     };
     ui: {
-      high: Array<Task>;
-      medium: Array<Task>;
-      low: Array<Task>;
+      high: Array<Queued>;
+      medium: Array<Queued>;
+      low: Array<Queued>;
     };
   };
 
+  private running = new Set<Running>();
+  private paused = false;
+  private looping = false;
+  private drainWaiters: Array<{ queued: boolean; resolve: () => void }> =
+    [];
+  private durations = new Map<string, Histogram>();
+  private metricsListeners = new Set<(s: SchedulerSnapshot) => void>();
+  private metricsHandle: unknown = null;
+  private metricsIntervalMs: number;
+  private limits: ConcurrencyLimits;
+  private inFlight = {
+    total: 0,
+    lanes: { domain: 0, ui: 0 } as Record<Lane, number>,
+    priorities: { high: 0, medium: 0, low: 0 } as Record<Prio, number>,
+  };
+
+  private hasCapacity(lane: Lane, priority: Prio): boolean {
+    return (
+      this.inFlight.total < this.limits.total &&
+      this.inFlight.lanes[lane] < this.limits.lanes[lane] &&
+      this.inFlight.priorities[priority] < this.limits.priorities[priority]
+    );
+  }
+
+  private fairness: FairnessOptions;
+  // smooth weighted round-robin state, one counter per lane
+  private laneCredit: Record<Lane, number> = { domain: 0, ui: 0 };
+
   private getNext(): { lane: Lane; priority: Prio } | null {
+    const now = this.clock.now();
+    const starving = this.oldestStarving(now);
+    if (starving) return starving;
+
+    const candidates: Array<{ lane: Lane; priority: Prio }> = [];
+    for (const lane of LANES) {
+      const priority = this.pickPriority(lane, now);
+      if (priority) candidates.push({ lane, priority });
+    }
+    if (candidates.length <= 1 || !this.fairness.laneWeights) {
+      return candidates[0] ?? null;
+    }
+
+    const weights = this.fairness.laneWeights;
+    let total = 0;
+    let best = candidates[0]!;
+    for (const c of candidates) {
+      total += weights[c.lane];
+      this.laneCredit[c.lane] += weights[c.lane];
+      if (this.laneCredit[c.lane] > this.laneCredit[best.lane]) best = c;
+    }
+    this.laneCredit[best.lane] -= total;
+    return best;
+  }
+
+  /* Highest effective priority in `lane` that has capacity, after aging. */
+  private pickPriority(lane: Lane, now: number): Prio | null {
+    const { agingMs } = this.fairness;
+    let best: { priority: Prio; rank: number; enqueuedAt: number } | null =
+      null;
+    for (let level = 0; level < PRIOS.length; level++) {
+      const priority = PRIOS[level]!;
+      const head = this.queue[lane][priority][0];
+      if (!head || !this.hasCapacity(lane, priority)) continue;
+      const boost = agingMs
+        ? Math.floor((now - head.enqueuedAt) / agingMs)
+        : 0;
+      const rank = Math.max(0, level - boost);
+      // on equal rank the task that has waited longer wins
+      if (
+        !best ||
+        rank < best.rank ||
+        (rank === best.rank && head.enqueuedAt < best.enqueuedAt)
+      ) {
+        best = { priority, rank, enqueuedAt: head.enqueuedAt };
+      }
+    }
+    return best?.priority ?? null;
+  }
+
+  private oldestStarving(now: number): { lane: Lane; priority: Prio } | null {
+    const { maxWaitMs } = this.fairness;
+    if (maxWaitMs === undefined) return null;
+    let oldest: { lane: Lane; priority: Prio; enqueuedAt: number } | null =
+      null;
     for (const lane of LANES) {
       for (const priority of PRIOS) {
-        if (this.queue[lane][priority].length) return { lane, priority };
+        const head = this.queue[lane][priority][0];
+        if (!head || now - head.enqueuedAt < maxWaitMs) continue;
+        if (!this.hasCapacity(lane, priority)) continue;
+        if (!oldest || head.enqueuedAt < oldest.enqueuedAt) {
+          oldest = { lane, priority, enqueuedAt: head.enqueuedAt };
+        }
       }
     }
-    return null;
+    return oldest && { lane: oldest.lane, priority: oldest.priority };
   }
 
-  constructor(logger: Logger) {
+  constructor(logger: Logger, options: SchedulerOptions = {}) {
     this.logger = logger;
+    this.clock = options.clock ?? systemClock;
+    this.fairness = options.fairness ?? {};
+    this.metricsIntervalMs = options.metricsIntervalMs ?? 5000;
+    const c = options.concurrency ?? {};
+    this.limits = {
+      total: c.total ?? DEFAULT_CONCURRENCY.total,
+      lanes: { ...DEFAULT_CONCURRENCY.lanes, ...c.lanes },
+      priorities: { ...DEFAULT_CONCURRENCY.priorities, ...c.priorities },
+    };
     this.state = {
       status: "idle",
     };
@@ -84,33 +294,136 @@ export class Scheduler {
     this.notifier = new Notifier();
   }
 
+  /*
+    Ends the run loop. Queued and delayed tasks are kept and in-flight tasks
+    run to completion, so a later start() picks up where this left off.
+  */
   stop() {
     this.state.status = "stopped";
+    this.disarm();
     this.notifier.signal();
   }
 
+  /** Stops starting new tasks; in-flight tasks keep running. */
+  pause() {
+    this.paused = true;
+  }
+
+  resume() {
+    if (!this.paused) return;
+    this.paused = false;
+    this.notifier.signal();
+  }
+
+  isPaused() {
+    return this.paused;
+  }
+
+  /*
+    Resolves once nothing is queued or in flight. Delayed and recurring tasks
+    that are not yet due do not count, and a paused scheduler with queued work
+    only drains after resume(). With `queued: false` only in-flight tasks
+    are waited for, e.g. while stopped, when the queue cannot move.
+  */
+  drain({ queued = true }: { queued?: boolean } = {}): Promise<void> {
+    if (this.isDrained(queued)) return Promise.resolve();
+    return new Promise<void>((resolve) =>
+      this.drainWaiters.push({ queued, resolve })
+    );
+  }
+
+  private isDrained(queued: boolean) {
+    if (this.inFlight.total) return false;
+    return (
+      !queued ||
+      LANES.every((lane) =>
+        PRIOS.every((priority) => !this.queue[lane][priority].length)
+      )
+    );
+  }
+
+  private checkDrained() {
+    if (!this.drainWaiters.length) return;
+    const waiters = this.drainWaiters;
+    this.drainWaiters = waiters.filter((w) => !this.isDrained(w.queued));
+    for (const w of waiters) {
+      if (!this.drainWaiters.includes(w)) w.resolve();
+    }
+  }
+
   async start() {
-    if (this.state.status === "running") return;
-    if (this.state.status === "stopped") throw new Error("cannot restart");
+    if (this.looping) {
+      // stop() was called but the loop has not woken up to notice yet;
+      // flipping the status back keeps that same loop going
+      if (this.state.status === "stopped") {
+        this.state.status = "running";
+        this.promoteDue();
+      }
+      return;
+    }
+    this.looping = true;
     this.state.status = "running";
-    while (this.state.status === "running") {
-      const worked = await this.tick();
+    this.promoteDue();
+    try {
+      while (this.state.status === "running") {
+        let worked = false;
+        while (this.state.status === "running" && this.tick()) {
+          worked = true;
+        }
 
-      if (!worked && this.state.status === "running") {
-        this.state.status = "idle";
-        await this.notifier.wait();
-        if (this.state.status === "idle") this.state.status = "running";
+        if (!worked && this.state.status === "running") {
+          this.state.status = "idle";
+          await this.notifier.wait();
+          if (this.state.status === "idle") this.state.status = "running";
+        }
       }
+    } finally {
+      this.looping = false;
     }
   }
 
-  private async tick(): Promise<boolean> {
+  /*
+    Starts the next eligible task without awaiting it and returns it, or null
+    if none could start. Finished tasks free their slot and signal the
+    notifier so the loop can pick up work that was waiting on a cap.
+  */
+  private tick(): Task | null {
+    if (this.paused) return null;
     const next = this.getNext();
-    if (!next) return false;
+    if (!next) return null;
     const { lane, priority } = next;
 
-    const task = this.queue[lane][priority].shift()!;
-    const started = Date.now();
+    const { task, enqueuedAt } = this.queue[lane][priority].shift()!;
+    this.inFlight.total++;
+    this.inFlight.lanes[lane]++;
+    this.inFlight.priorities[priority]++;
+    void this.execute(task, lane, priority, enqueuedAt).finally(() => {
+      this.inFlight.total--;
+      this.inFlight.lanes[lane]--;
+      this.inFlight.priorities[priority]--;
+      this.notifier.signal();
+      this.checkDrained();
+    });
+    return task;
+  }
+
+  /**
+   * Starts at most one due task without the run loop and returns its id.
+   * Lets a test driver interleave tasks one at a time.
+   * @internal
+   */
+  step(): string | null {
+    this.promoteDue();
+    return this.tick()?.id ?? null;
+  }
+
+  private async execute(
+    task: Task,
+    lane: Lane,
+    priority: Prio,
+    enqueuedAt: number
+  ) {
+    const started = this.clock.now();
     const baseLog = {
       ts: started,
       kind: "scheduler",
@@ -119,15 +432,47 @@ export class Scheduler {
       priority,
       lane,
     };
-    this.logger?.append({ ...baseLog, event: "start" }).catch?.(() => {});
+    const entry: Running = {
+      task,
+      controller: new AbortController(),
+      lane,
+      priority,
+      startedAt: started,
+    };
+    const { signal } = entry.controller;
+    const timer =
+      task.timeoutMs !== undefined
+        ? this.clock.setTimer(
+            () =>
+              entry.controller.abort(
+                new DOMException(
+                  `task ${task.id} timed out after ${task.timeoutMs}ms`,
+                  "TimeoutError"
+                )
+              ),
+            task.timeoutMs
+          )
+        : null;
+    this.running.add(entry);
+    this.logger
+      ?.append({ ...baseLog, event: "start", waitedMs: started - enqueuedAt })
+      .catch?.(() => {});
     try {
-      await task.run();
-      const duration = Date.now() - started;
-      this.logger
-        ?.append({ ...baseLog, event: "end", durationMs: duration })
-        .catch?.(() => {});
+      await task.run(signal);
+      const duration = this.clock.now() - started;
+      if (signal.aborted) {
+        this.logCanceled(baseLog, signal, duration);
+      } else {
+        this.logger
+          ?.append({ ...baseLog, event: "end", durationMs: duration })
+          .catch?.(() => {});
+      }
     } catch (err: any) {
-      const duration = Date.now() - started;
+      const duration = this.clock.now() - started;
+      if (signal.aborted) {
+        this.logCanceled(baseLog, signal, duration);
+        return;
+      }
       this.logger
         ?.append({
           ...baseLog,
@@ -137,20 +482,254 @@ export class Scheduler {
         })
         .catch?.(() => {});
       console.error("[scheduler] task error:", err);
+    } finally {
+      if (timer !== null) this.clock.clearTimer(timer);
+      this.running.delete(entry);
+      this.observeDuration(task.id, this.clock.now() - started);
+    }
+  }
+
+  private observeDuration(id: string, ms: number) {
+    const prefix = taskPrefix(id);
+    let h = this.durations.get(prefix);
+    if (!h) this.durations.set(prefix, (h = new Histogram()));
+    h.observe(ms);
+  }
+
+  snapshot(): SchedulerSnapshot {
+    const now = this.clock.now();
+    const depth = (lane: Lane) => ({
+      high: this.queue[lane].high.length,
+      medium: this.queue[lane].medium.length,
+      low: this.queue[lane].low.length,
+    });
+    return {
+      at: now,
+      status: this.state.status,
+      paused: this.paused,
+      queued: { domain: depth("domain"), ui: depth("ui") },
+      scheduled: this.timers.length,
+      inFlight: [...this.running].map((r) => ({
+        id: r.task.id,
+        ...(r.task.group !== undefined ? { group: r.task.group } : {}),
+        lane: r.lane,
+        priority: r.priority,
+        startedAt: r.startedAt,
+        ageMs: now - r.startedAt,
+      })),
+      durations: Object.fromEntries(
+        [...this.durations].map(([prefix, h]) => [prefix, h.snapshot()])
+      ),
+    };
+  }
+
+  /*
+    Subscribes to periodic snapshots. The interval timer only runs while at
+    least one listener is attached; the returned function unsubscribes.
+  */
+  onMetrics(listener: (s: SchedulerSnapshot) => void): () => void {
+    this.metricsListeners.add(listener);
+    if (this.metricsHandle === null) this.armMetrics();
+    return () => {
+      this.metricsListeners.delete(listener);
+      if (this.metricsListeners.size || this.metricsHandle === null) return;
+      this.clock.clearTimer(this.metricsHandle);
+      this.metricsHandle = null;
+    };
+  }
+
+  private armMetrics() {
+    this.metricsHandle = this.clock.setTimer(() => {
+      const snap = this.snapshot();
+      for (const listener of this.metricsListeners) {
+        try {
+          listener(snap);
+        } catch (err) {
+          console.error("[scheduler] metrics listener error:", err);
+        }
+      }
+      if (this.metricsListeners.size) this.armMetrics();
+      else this.metricsHandle = null;
+    }, this.metricsIntervalMs);
+  }
+
+  private logCanceled(
+    baseLog: Record<string, unknown>,
+    signal: AbortSignal | null,
+    durationMs?: number
+  ) {
+    const cause =
+      signal?.reason?.name === "TimeoutError" ? "timeout" : "cancel";
+    this.logger
+      ?.append({
+        ...baseLog,
+        event: "canceled",
+        cause,
+        ...(durationMs !== undefined ? { durationMs } : {}),
+      })
+      .catch?.(() => {});
+  }
+
+  /*
+    Cancels every queued or running task matching `match`. Queued and
+    scheduled tasks are dropped without running; running tasks get their
+    signal aborted and are logged as canceled once they settle.
+  */
+  private cancelWhere(match: (task: Task) => boolean, reason?: string) {
+    const abortReason = new DOMException(
+      reason ?? "task canceled",
+      "AbortError"
+    );
+    let count = 0;
+    for (const lane of LANES) {
+      for (const priority of PRIOS) {
+        const kept: Queued[] = [];
+        for (const queued of this.queue[lane][priority]) {
+          const { task } = queued;
+          if (!match(task)) {
+            kept.push(queued);
+            continue;
+          }
+          count++;
+          this.logCanceled(
+            {
+              ts: this.clock.now(),
+              kind: "scheduler",
+              phase: "queue",
+              taskId: task.id,
+              priority,
+              lane,
+            },
+            null
+          );
+          try {
+            task.onCancel?.(abortReason);
+          } catch (err) {
+            console.error("[scheduler] onCancel error:", err);
+          }
+        }
+        this.queue[lane][priority] = kept;
+      }
+    }
+    const timers = this.timers.filter((t) => !match(t.task));
+    for (const t of this.timers) {
+      if (!match(t.task)) continue;
+      count++;
+      this.logCanceled(
+        {
+          ts: this.clock.now(),
+          kind: "scheduler",
+          phase: "timer",
+          taskId: t.task.id,
+          priority: t.priority,
+          lane: t.lane,
+        },
+        null
+      );
+      try {
+        t.task.onCancel?.(abortReason);
+      } catch (err) {
+        console.error("[scheduler] onCancel error:", err);
+      }
     }
-    return true;
+    if (timers.length !== this.timers.length) {
+      this.timers = timers;
+      this.arm();
+    }
+    this.checkDrained();
+    for (const entry of this.running) {
+      if (!match(entry.task) || entry.controller.signal.aborted) continue;
+      count++;
+      entry.controller.abort(abortReason);
+    }
+    return count;
+  }
+
+  /** Cancels queued or running tasks with this id; returns how many matched. */
+  cancel(id: string, reason?: string): number {
+    return this.cancelWhere((task) => task.id === id, reason);
+  }
+
+  /** Cancels every queued or running task in `group`. */
+  cancelGroup(group: string, reason?: string): number {
+    return this.cancelWhere((task) => task.group === group, reason);
   }
 
   enqueue({
     task,
     priority,
     lane,
+    runAt,
+    every,
+    cron,
   }: {
     task: Task;
     priority: Prio;
     lane: Lane;
-  }) {
-    this.queue[lane][priority].push(task);
-    this.notifier.signal();
+  } & TaskSchedule) {
+    if (runAt === undefined && every === undefined && cron === undefined) {
+      this.queue[lane][priority].push({ task, enqueuedAt: this.clock.now() });
+      this.notifier.signal();
+      return;
+    }
+    const timer: Timer = { dueAt: 0, task, lane, priority };
+    if (every !== undefined) {
+      if (!(every > 0)) throw new Error(`invalid interval: ${every}`);
+      timer.every = every;
+    }
+    if (cron !== undefined) timer.cron = parseCron(cron);
+    timer.dueAt = runAt ?? this.nextDue(timer, this.clock.now());
+    this.addTimer(timer);
+  }
+
+  private nextDue(timer: Timer, from: number): number {
+    if (timer.every !== undefined) return from + timer.every;
+    return nextCronTime(timer.cron!, from);
+  }
+
+  private addTimer(timer: Timer) {
+    const i = this.timers.findIndex((t) => t.dueAt > timer.dueAt);
+    if (i === -1) this.timers.push(timer);
+    else this.timers.splice(i, 0, timer);
+    this.arm();
+  }
+
+  /* Moves due timers into the run queues and re-arms recurring ones. */
+  private promoteDue() {
+    const now = this.clock.now();
+    let promoted = false;
+    while (this.timers.length && this.timers[0]!.dueAt <= now) {
+      const timer = this.timers.shift()!;
+      this.queue[timer.lane][timer.priority].push({
+        task: timer.task,
+        enqueuedAt: timer.dueAt,
+      });
+      promoted = true;
+      if (timer.every !== undefined || timer.cron) {
+        // skip missed occurrences instead of bursting to catch up
+        let dueAt = this.nextDue(timer, timer.dueAt);
+        if (dueAt <= now) dueAt = this.nextDue(timer, now);
+        this.addTimer({ ...timer, dueAt });
+      }
+    }
+    this.arm();
+    if (promoted) this.notifier.signal();
+  }
+
+  /* Keeps exactly one clock timer pending, for the earliest due task. */
+  private arm() {
+    this.disarm();
+    if (this.state.status === "stopped" || !this.timers.length) return;
+    const delay = Math.max(0, this.timers[0]!.dueAt - this.clock.now());
+    this.timerHandle = this.clock.setTimer(() => {
+      this.timerHandle = null;
+      this.promoteDue();
+    }, delay);
+  }
+
+  private disarm() {
+    if (this.timerHandle === null) return;
+    this.clock.clearTimer(this.timerHandle);
+    this.timerHandle = null;
   }
 }
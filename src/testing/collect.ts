@@ -0,0 +1,8 @@
+// testing/collect.ts
+
+/** Drains a stream, e.g. an LlmPort reply, into an array of its chunks. */
+export async function collect<T>(it: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const t of it) out.push(t);
+  return out;
+}
@@ -0,0 +1,82 @@
+// testing/fake-sse-server.ts
+
+export type FakeSseEvent = {
+  event?: string;
+  /** Sent as is when a string, as JSON otherwise. */
+  data: unknown;
+};
+
+export type FakeReply = {
+  status?: number;
+  headers?: Record<string, string>;
+  /** Streamed as SSE frames; ignored when `body` is given. */
+  events?: FakeSseEvent[];
+  body?: string;
+};
+
+export type RecordedRequest = {
+  method: string;
+  path: string;
+  headers: Headers;
+  body: any;
+};
+
+/*
+  A local HTTP server that answers each request with the next queued reply,
+  so provider ports can be tested against their wire format offline.
+*/
+export class FakeSseServer {
+  readonly requests: RecordedRequest[] = [];
+  private replies: FakeReply[] = [];
+
+  private constructor(private server: ReturnType<typeof Bun.serve>) {}
+
+  static start(): FakeSseServer {
+    let fake!: FakeSseServer;
+    const server = Bun.serve({
+      port: 0,
+      fetch: (req) => fake.handle(req),
+    });
+    fake = new FakeSseServer(server);
+    return fake;
+  }
+
+  /** Base URL without a trailing slash, e.g. `http://localhost:1234/v1`. */
+  get url(): string {
+    return `http://localhost:${this.server.port}/v1`;
+  }
+
+  reply(reply: FakeReply): this {
+    this.replies.push(reply);
+    return this;
+  }
+
+  stop(): void {
+    this.server.stop(true);
+  }
+
+  private async handle(req: Request): Promise<Response> {
+    const text = await req.text();
+    let body: any = text;
+    try {
+      body = JSON.parse(text);
+    } catch {}
+    this.requests.push({
+      method: req.method,
+      path: new URL(req.url).pathname,
+      headers: req.headers,
+      body,
+    });
+    const reply = this.replies.shift();
+    if (!reply) return new Response("no reply queued", { status: 500 });
+    const frames = (reply.events ?? []).map(
+      ({ event, data }) =>
+        (event ? `event: ${event}\n` : "") +
+        `data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`
+    );
+    return new Response(reply.body ?? frames.join(""), {
+      status: reply.status ?? 200,
+      headers: { "Content-Type": "text/event-stream", ...reply.headers },
+    });
+  }
+}
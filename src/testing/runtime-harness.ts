@@ -0,0 +1,83 @@
+// testing/runtime-harness.ts
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { LlmPort } from "../drivers/llm-port.js";
+import type { ToolPort } from "../drivers/tools-port.js";
+import { Logger } from "../logger.js";
+import { Runtime, RuntimeOptions } from "../runtime.js";
+import { Scheduler, SchedulerOptions } from "../scheduler.js";
+import type { AgentUiEvent } from "../ui-messages.js";
+import { SchedulerDriver } from "./scheduler-driver.js";
+import { VirtualClock } from "./virtual-clock.js";
+
+export type RuntimeHarnessOptions = Omit<
+  RuntimeOptions,
+  "llm" | "tools" | "scheduler"
+> & {
+  /** A port, or a factory for one that shares the harness's clock. */
+  llm: LlmPort | ((clock: VirtualClock) => LlmPort);
+  tools?: ToolPort[];
+  scheduler?: Omit<SchedulerOptions, "clock">;
+};
+
+/*
+  A Runtime wired to a virtual clock and a hand-driven scheduler, with every
+  UI event recorded. Nothing runs until the test steps the driver.
+*/
+export class RuntimeHarness {
+  private constructor(
+    readonly runtime: Runtime,
+    readonly driver: SchedulerDriver,
+    readonly clock: VirtualClock,
+    readonly events: AgentUiEvent[],
+    /** Where logs, journals and sessions go; a fresh temp dir by default. */
+    readonly logDir: string
+  ) {}
+
+  static async create(options: RuntimeHarnessOptions) {
+    const { scheduler: schedulerOptions, llm, ...rest } = options;
+    const logDir =
+      rest.logDir ?? (await mkdtemp(join(tmpdir(), "thom-test-")));
+    const clock = new VirtualClock();
+    const logger = new Logger(join(logDir, "scheduler.log"));
+    const scheduler = new Scheduler(logger, { ...schedulerOptions, clock });
+    const events: AgentUiEvent[] = [];
+    const runtime = await Runtime.init((evt) => events.push(evt), {
+      ...rest,
+      llm: typeof llm === "function" ? llm(clock) : llm,
+      tools: rest.tools ?? [],
+      scheduler,
+      logDir,
+      metricsIntervalMs: 0,
+    });
+    return new RuntimeHarness(
+      runtime,
+      new SchedulerDriver(scheduler, clock),
+      clock,
+      events,
+      logDir
+    );
+  }
+
+  say(text: string, target = "agent#1") {
+    this.runtime.dispatch({
+      type: "UserInput",
+      text,
+      target,
+      reqId: `user-${this.clock.now()}`,
+    });
+  }
+
+  kinds(): string[] {
+    return this.events.map((e) => e.kind);
+  }
+
+  ofKind<K extends AgentUiEvent["kind"]>(
+    kind: K
+  ): Array<Extract<AgentUiEvent, { kind: K }>> {
+    return this.events.filter(
+      (e): e is Extract<AgentUiEvent, { kind: K }> => e.kind === kind
+    );
+  }
+}
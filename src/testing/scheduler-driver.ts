@@ -0,0 +1,78 @@
+// testing/scheduler-driver.ts
+import { Logger } from "../logger.js";
+import { Scheduler, SchedulerOptions } from "../scheduler.js";
+import { VirtualClock } from "./virtual-clock.js";
+
+/** Lets pending promise callbacks and I/O-free async work run to a halt. */
+export function settle(): Promise<void> {
+  return new Promise((res) => setTimeout(res, 0));
+}
+
+export type Deferred<T> = {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (err: unknown) => void;
+};
+
+export function deferred<T = void>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  let reject!: (err: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+/*
+  Drives a Scheduler by hand instead of through start(): each step() starts
+  one task and lets everything it triggers settle before returning, so tests
+  can assert on exact interleavings. Time only moves through the clock.
+*/
+export class SchedulerDriver {
+  constructor(
+    readonly scheduler: Scheduler,
+    readonly clock: VirtualClock
+  ) {}
+
+  static create(options: Omit<SchedulerOptions, "clock"> = {}) {
+    const clock = new VirtualClock();
+    const scheduler = new Scheduler(new Logger(""), { ...options, clock });
+    return new SchedulerDriver(scheduler, clock);
+  }
+
+  /** Starts the next eligible task, settles, and returns its id (or null). */
+  async step(): Promise<string | null> {
+    const id = this.scheduler.step();
+    await settle();
+    return id;
+  }
+
+  /** Advances the clock (firing timers) and settles. */
+  async advance(ms: number): Promise<void> {
+    this.clock.advance(ms);
+    await settle();
+  }
+
+  /*
+    Steps until nothing can start. With `advanceTime` the clock also jumps to
+    pending timers (delayed tasks, backoff sleeps, deadlines) when stuck.
+    Returns the ids of the tasks started, in order.
+  */
+  async runUntilIdle({
+    advanceTime = true,
+    maxSteps = 1000,
+  }: { advanceTime?: boolean; maxSteps?: number } = {}): Promise<string[]> {
+    const started: string[] = [];
+    for (let i = 0; i < maxSteps; i++) {
+      const id = await this.step();
+      if (id !== null) {
+        started.push(id);
+        continue;
+      }
+      if (!advanceTime || !this.clock.advanceToNext()) return started;
+      await settle();
+    }
+    throw new Error(`scheduler still busy after ${maxSteps} steps`);
+  }
+}
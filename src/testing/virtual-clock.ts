@@ -0,0 +1,71 @@
+// testing/virtual-clock.ts
+import type { Clock } from "../clock.js";
+
+/**
+ * Clock whose time only moves when a test says so. Timers fire in due order,
+ * each with `now()` set to its own due time.
+ */
+export class VirtualClock implements Clock {
+  private current: number;
+  private seq = 0;
+  private timers = new Map<number, { at: number; fn: () => void }>();
+
+  constructor(start = 0) {
+    this.current = start;
+  }
+
+  now() {
+    return this.current;
+  }
+
+  setTimer(fn: () => void, ms: number): number {
+    this.timers.set(++this.seq, { at: this.current + Math.max(0, ms), fn });
+    return this.seq;
+  }
+
+  clearTimer(handle: unknown) {
+    this.timers.delete(handle as number);
+  }
+
+  /** Number of timers that have not fired yet. */
+  pending(): number {
+    return this.timers.size;
+  }
+
+  nextTimerAt(): number | null {
+    let next: number | null = null;
+    for (const { at } of this.timers.values()) {
+      if (next === null || at < next) next = at;
+    }
+    return next;
+  }
+
+  /** Moves time forward by `ms`, firing every timer that falls due. */
+  advance(ms: number) {
+    const target = this.current + ms;
+    while (this.fireNext(target));
+    this.current = target;
+  }
+
+  /** Jumps to the earliest pending timer and fires it. */
+  advanceToNext(): boolean {
+    const at = this.nextTimerAt();
+    return at !== null && this.fireNext(at);
+  }
+
+  private fireNext(limit: number): boolean {
+    let id: number | null = null;
+    let entry: { at: number; fn: () => void } | undefined;
+    for (const [k, t] of this.timers) {
+      if (t.at <= limit && (!entry || t.at < entry.at)) {
+        id = k;
+        entry = t;
+      }
+    }
+    if (id === null || !entry) return false;
+    this.timers.delete(id);
+    this.current = Math.max(this.current, entry.at);
+    entry.fn();
+    return true;
+  }
+}
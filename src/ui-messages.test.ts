@@ -15,8 +15,11 @@ const EXPECTED_KINDS = [
   "planning-stop",
   "llm-start",
   "stream-token",
+  "planner-delta",
   "stream-done",
   "llm-end",
+  "retry",
+  "metrics",
 ] as const;
 
 describe("AGENT_UI_EVENT_KINDS", () => {
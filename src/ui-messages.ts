@@ -9,6 +9,12 @@
  * semantic events and let the UI decide how to render them.
  */
 
+import type { ActorId } from "./actor.js";
+import type { LlmUsage } from "./drivers/llm-port.js";
+import type { MailboxSnapshot } from "./mailbox.js";
+import type { SchedulerSnapshot } from "./scheduler.js";
+import type { UsageTotals } from "./usage.js";
+
 /* -------------------------------------------------------------------------- */
 /*  Deliverable + Core Event Union                                            */
 /* -------------------------------------------------------------------------- */
@@ -33,8 +39,11 @@ export const AGENT_UI_EVENT_KINDS = [
   "planning-stop",
   "llm-start",
   "stream-token",
+  "planner-delta",
   "stream-done",
   "llm-end",
+  "retry",
+  "metrics",
 ] as const;
 
 export type AgentUiEventKind = (typeof AGENT_UI_EVENT_KINDS)[number];
@@ -44,8 +53,9 @@ export type AgentUiEventKind = (typeof AGENT_UI_EVENT_KINDS)[number];
  *
  * Each variant is intentionally flat and discriminated by the `kind` field.
  * Keep payloads JSON-serializable; avoid class instances or cyclic objects.
+ * The runtime stamps `actorId` on events emitted by or on behalf of an actor.
  */
-export type AgentUiEvent =
+export type AgentUiEvent = (
   | {
       kind: "session-start";
       /** Runtime-assigned session identifier (unique per run). */
@@ -54,6 +64,8 @@ export type AgentUiEvent =
       agentId: string;
       /** Epoch millis when the session became active. */
       at: number;
+      /** Set when a saved session was resumed rather than started fresh. */
+      resumed?: boolean;
     }
   | {
       kind: "user-turn";
@@ -126,7 +138,7 @@ export type AgentUiEvent =
   | {
       kind: "status";
       /** Machine status signal. */
-      status: "interrupted" | "max-steps";
+      status: "interrupted" | "max-steps" | "budget";
       /** Optional detail / explanation. */
       detail?: string;
     }
@@ -144,9 +156,11 @@ export type AgentUiEvent =
       /** Correlates with `planning-start`. */
       requestId: string;
     /** Reason code for stopping. */
-    reason: "final" | "error" | "interrupted" | "max-steps";
+    reason: "final" | "error" | "interrupted" | "max-steps" | "budget";
       /** Optional detail (e.g. forwarded status detail). */
       detail?: string;
+      /** Model usage of the whole turn, when any request reported it. */
+      usage?: UsageTotals;
     }
   | {
       kind: "llm-start";
@@ -156,6 +170,8 @@ export type AgentUiEvent =
       requestId: string;
       /** Optional preview of the prompt (truncated upstream) */
       promptPreview?: string;
+      /** Model the request goes to first, if the port knows */
+      model?: string;
     }
   | {
       kind: "stream-token";
@@ -164,6 +180,17 @@ export type AgentUiEvent =
       /** Incremental token text. */
       token: string;
     }
+  | {
+      kind: "planner-delta";
+      agentId: string;
+      requestId: string;
+      /** Field of the planner turn still being streamed. */
+      field: "say" | "goal";
+      /** Text added since the previous delta of this field. */
+      delta: string;
+      /** The field's text so far. */
+      text: string;
+    }
   | {
       kind: "stream-done";
       target: string;
@@ -175,9 +202,41 @@ export type AgentUiEvent =
       requestId: string;
       /** Total duration in ms as measured by runtime */
       durationMs: number;
-      /** Number of streamed text tokens (if known) */
+      /** Model that served the request, after any fallback */
+      model?: string;
+      /** Output tokens, as reported by the provider (if it did) */
       tokens?: number;
-    };
+      usage?: LlmUsage;
+      /** Cost of the request in USD, if its model has a price */
+      costUsd?: number;
+    }
+  | {
+      kind: "retry";
+      /** Target agent id whose work is being retried */
+      target: string;
+      /** What failed: a model request or a tool call */
+      source: "llm" | "tool";
+      /** Correlation id of the LLM request or tool task */
+      requestId: string;
+      /** Attempt about to start (2 for the first retry) */
+      attempt: number;
+      maxAttempts: number;
+      /** Backoff before the next attempt, in ms */
+      delayMs: number;
+      /** Error that triggered the retry */
+      error: string;
+    }
+  | {
+      kind: "metrics";
+      /** Periodic scheduler snapshot: queue depth, in-flight tasks, durations */
+      scheduler: SchedulerSnapshot;
+      /** Mailbox depth and throughput per actor */
+      mailboxes: Record<ActorId, MailboxSnapshot>;
+    }
+) & {
+  /** Actor the event belongs to; absent for runtime-wide events. */
+  actorId?: ActorId;
+};
 
 /* -------------------------------------------------------------------------- */
 /*  Type Guards                                                               */
@@ -255,6 +314,12 @@ export function isStreamTokenEvent(
   return e.kind === "stream-token";
 }
 
+export function isPlannerDeltaEvent(
+  e: AgentUiEvent
+): e is Extract<AgentUiEvent, { kind: "planner-delta" }> {
+  return e.kind === "planner-delta";
+}
+
 export function isStreamDoneEvent(
   e: AgentUiEvent
 ): e is Extract<AgentUiEvent, { kind: "stream-done" }> {
@@ -273,6 +338,18 @@ export function isLlmEndEvent(
   return e.kind === "llm-end";
 }
 
+export function isRetryEvent(
+  e: AgentUiEvent
+): e is Extract<AgentUiEvent, { kind: "retry" }> {
+  return e.kind === "retry";
+}
+
+export function isMetricsEvent(
+  e: AgentUiEvent
+): e is Extract<AgentUiEvent, { kind: "metrics" }> {
+  return e.kind === "metrics";
+}
+
 /* -------------------------------------------------------------------------- */
 /*  Utility (Optional Helpers)                                                */
 /* -------------------------------------------------------------------------- */
@@ -307,6 +384,9 @@ switch (evt.kind) {
   case "status":        // red or gray
   case "error":         // red
   case "stream-token":  // cyan incremental
+  case "planner-delta": // preview line, replaced by the step it becomes
   case "stream-done":   // finalize line/prompt
+  case "retry":         // dim "retrying (n/max)"
+  case "metrics":       // status bar / dashboard, not the transcript
 }
 */
@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import {
+  BudgetExceededError,
+  costOf,
+  PriceTable,
+  UsageMeter,
+} from "./usage.js";
+
+const usage = (model: string) => ({
+  model,
+  inputTokens: 1_000_000,
+  outputTokens: 100_000,
+  cachedTokens: 200_000,
+});
+
+describe("usage", () => {
+  test("prices cached input separately and matches dated models", () => {
+    const prices = {
+      m: { input: 1, output: 10, cachedInput: 0.5 },
+      "m-large": { input: 2, output: 20 },
+    };
+    // 800k uncached, 200k cached, 100k out
+    expect(costOf(usage("m-2025-01-01"), prices)).toBeCloseTo(0.8 + 0.1 + 1);
+    expect(costOf(usage("m-large-1"), prices)).toBeCloseTo(2 + 2);
+    expect(costOf(usage("other"), prices)).toBeUndefined();
+  });
+
+  test("price tables read from a file are checked", () => {
+    expect(PriceTable.parse({ m: { input: 1, output: 2 } })).toEqual({
+      m: { input: 1, output: 2 },
+    });
+    expect(PriceTable.safeParse({ m: { input: 1 } }).success).toBe(false);
+    expect(
+      PriceTable.safeParse({ m: { input: 1, output: 2, cachedInput: -1 } })
+        .success
+    ).toBe(false);
+  });
+
+  test("refuses further requests once the cap is spent", () => {
+    const meter = new UsageMeter({ m: { input: 1, output: 10 } }, 2);
+    meter.checkBudget();
+    expect(meter.record(usage("m"))).toBeCloseTo(2);
+    expect(meter.snapshot()).toMatchObject({
+      requests: 1,
+      inputTokens: 1_000_000,
+      cachedTokens: 200_000,
+    });
+    expect(() => meter.checkBudget()).toThrow(BudgetExceededError);
+  });
+});
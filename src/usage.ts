@@ -0,0 +1,124 @@
+// usage.ts
+
+import { z } from "zod";
+import type { LlmUsage } from "./drivers/llm-port.js";
+
+/** USD per million tokens. */
+export const ModelPrice = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+  /** Price of cached prompt tokens; `input` when absent. */
+  cachedInput: z.number().min(0).exactOptional(),
+});
+export type ModelPrice = z.infer<typeof ModelPrice>;
+
+/*
+  Prices by model name. A dated snapshot such as `gpt-5-mini-2025-08-07`
+  uses the entry of its longest matching prefix.
+*/
+export const PriceTable = z.record(z.string(), ModelPrice);
+export type PriceTable = z.infer<typeof PriceTable>;
+
+export const DEFAULT_PRICES: PriceTable = {
+  "gpt-5-mini": { input: 0.25, output: 2, cachedInput: 0.025 },
+  "claude-sonnet-4-5": { input: 3, output: 15, cachedInput: 0.3 },
+};
+
+export type UsageTotals = {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  /** Only requests to models with a price count toward it. */
+  costUsd: number;
+};
+
+export function emptyUsage(): UsageTotals {
+  return {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedTokens: 0,
+    costUsd: 0,
+  };
+}
+
+export function addUsage(
+  totals: UsageTotals,
+  usage: LlmUsage,
+  costUsd = 0
+): UsageTotals {
+  return {
+    requests: totals.requests + 1,
+    inputTokens: totals.inputTokens + usage.inputTokens,
+    outputTokens: totals.outputTokens + usage.outputTokens,
+    cachedTokens: totals.cachedTokens + usage.cachedTokens,
+    costUsd: totals.costUsd + costUsd,
+  };
+}
+
+export function priceOf(
+  model: string,
+  prices: PriceTable
+): ModelPrice | undefined {
+  if (prices[model]) return prices[model];
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix === undefined ? undefined : prices[prefix];
+}
+
+/** Cost in USD, or undefined when the model has no price. */
+export function costOf(
+  usage: LlmUsage,
+  prices: PriceTable
+): number | undefined {
+  const price = priceOf(usage.model, prices);
+  if (!price) return undefined;
+  const uncached = usage.inputTokens - usage.cachedTokens;
+  return (
+    (uncached * price.input +
+      usage.cachedTokens * (price.cachedInput ?? price.input) +
+      usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+export class BudgetExceededError extends Error {
+  constructor(readonly spentUsd: number, readonly maxCostUsd: number) {
+    super(
+      `spending cap reached: $${spentUsd.toFixed(4)} of ` +
+        `$${maxCostUsd.toFixed(2)}`
+    );
+    this.name = "BudgetExceededError";
+  }
+}
+
+/** Session-wide usage and cost, with an optional spending cap. */
+export class UsageMeter {
+  private totals = emptyUsage();
+
+  constructor(
+    private prices: PriceTable = DEFAULT_PRICES,
+    readonly maxCostUsd?: number
+  ) {}
+
+  /** Adds one request's usage; returns its cost if the model has a price. */
+  record(usage: LlmUsage): number | undefined {
+    const cost = costOf(usage, this.prices);
+    this.totals = addUsage(this.totals, usage, cost);
+    return cost;
+  }
+
+  snapshot(): UsageTotals {
+    return { ...this.totals };
+  }
+
+  /** Throws once the session has spent its cap; call before each request. */
+  checkBudget(): void {
+    const { costUsd } = this.totals;
+    if (this.maxCostUsd !== undefined && costUsd >= this.maxCostUsd) {
+      throw new BudgetExceededError(costUsd, this.maxCostUsd);
+    }
+  }
+}